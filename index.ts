@@ -1,16 +1,39 @@
 // src/index.ts
 import dotenv from "dotenv";
 import inquirer from "inquirer";
+import { loadBatchFile } from "./src/batch/input.js";
+import type { BatchItem } from "./src/batch/input.js";
+import { runBatch, writeBatchReport } from "./src/batch/runner.js";
+import { CliUsageError, USAGE, parseCliArgs } from "./src/cli/args.js";
+import type { CliOptions } from "./src/cli/args.js";
+import { resolveAudioConfig } from "./src/config/audio.js";
+import { ConfigError, definedOnly } from "./src/config/file.js";
+import { resolveResearchConfig } from "./src/config/research.js";
+import { resolveStyleProfile } from "./src/config/style.js";
+import { resolveTranscriptConfig } from "./src/config/transcripts.js";
+import { resolveVideoConfig } from "./src/config/video.js";
 import { runResearchStage } from "./src/agents/research.js";
-import { runScriptingStage } from "./src/agents/scripting.js";
-import { runHumanReviewNode } from "./src/agents/human_review.js";
-import { runAudioStage } from "./src/agents/audio.js";
-import { runVideoGenerationStage } from "./src/agents/video_generation.js";
-import type { AgentState } from "./src/state/state.js";
+import {
+  formatTopicSuggestions,
+  runTopicSuggestionStage,
+} from "./src/agents/topic_ideas.js";
+import { resolveResearchSources } from "./src/research/registry.js";
+import {
+  createPipelineContext,
+  firstIncompleteStage,
+  resetStages,
+  runPipeline,
+} from "./src/pipeline/pipeline.js";
+import { DEFAULT_STAGES } from "./src/pipeline/stages.js";
+import { createRun, loadCheckpoint, runExists } from "./src/state/store.js";
+import type { RunCheckpoint } from "./src/state/store.js";
+import type { RunSettings } from "./src/state/state.js";
 
 dotenv.config();
 
-async function main() {
+const STAGES = DEFAULT_STAGES;
+
+async function promptForTopic(): Promise<string> {
   const { topic } = await inquirer.prompt([
     {
       type: "input",
@@ -19,69 +42,296 @@ async function main() {
       default: "Claude code for development in 2026",
     },
   ]);
-  const TOPIC = topic;
+  return topic;
+}
 
-  // Initialize State
-  let state: AgentState = {
-    topic: TOPIC,
+/**
+ * In --json mode stdout carries only the result document, so every log line
+ * (including the HeyGen status ticker) is redirected to stderr.
+ * Returns a writer bound to the real stdout.
+ */
+function reserveStdoutForJson(): (text: string) => void {
+  const writeStdout = process.stdout.write.bind(process.stdout);
+  console.log = console.error;
+  process.stdout.write = process.stderr.write.bind(process.stderr);
+  return (text) => {
+    writeStdout(text);
   };
+}
+
+/**
+ * Resolves every configurable section once so bad config fails before any
+ * paid API call is made. Throws a ConfigError.
+ */
+function validateRunSettings(settings: RunSettings | undefined): void {
+  resolveAudioConfig({
+    profile: settings?.audioProfile,
+    overrides: settings?.audio,
+  });
+  resolveVideoConfig({
+    profile: settings?.videoProfile,
+    overrides: settings?.video,
+  });
+  resolveTranscriptConfig();
+  resolveResearchConfig({
+    profile: settings?.researchProfile,
+    overrides: settings?.research,
+  });
+  resolveResearchSources(settings?.researchSources);
+  resolveStyleProfile({
+    profile: settings?.styleProfile,
+    overrides: { targetSeconds: settings?.targetSeconds },
+  });
+}
+
+/**
+ * Settings from the command line for a new run.
+ */
+function newRunSettings(options: CliOptions): RunSettings {
+  return definedOnly({
+    audioProfile: options.audioProfile,
+    videoProfile: options.videoProfile,
+    researchProfile: options.researchProfile,
+    styleProfile: options.styleProfile,
+    researchSources: options.sources,
+    hookPattern: options.hookPattern,
+  });
+}
+
+/**
+ * Researches the niche and proposes ranked topics. On a TTY the user picks
+ * one by number and it is returned to start a normal run; with --json or
+ * without a TTY the suggestions are only printed.
+ */
+async function suggestTopic(
+  options: CliOptions,
+  printJson: ((text: string) => void) | undefined
+): Promise<string | undefined> {
+  const niche = options.niche!;
+  const settings = newRunSettings(options);
+  validateRunSettings(settings);
+
+  const research = await runResearchStage(niche, {
+    sources: settings.researchSources,
+    settings: resolveResearchConfig({ profile: settings.researchProfile }),
+    refresh: options.refreshResearch,
+  });
+  const suggestions = await runTopicSuggestionStage(niche, research);
+
+  console.log(`\n💡 TOPICS FOR "${niche}":`);
+  console.log(formatTopicSuggestions(suggestions));
+  console.log("");
+
+  if (printJson || !process.stdin.isTTY || suggestions.length === 0) {
+    printJson?.(JSON.stringify({ niche, suggestions }, null, 2) + "\n");
+    return undefined;
+  }
+
+  // A typed number works in terminals where arrow-key lists do not
+  const { choice } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "choice",
+      message: `Pick a topic (1-${suggestions.length}, empty to exit):`,
+      validate: (value: string) =>
+        !value.trim() ||
+        suggestions.some((s) => String(s.rank) === value.trim()) ||
+        `Enter a number from 1 to ${suggestions.length}`,
+    },
+  ]);
+  return suggestions.find((s) => String(s.rank) === String(choice).trim())
+    ?.topic;
+}
+
+/**
+ * Loads the run to resume, or creates a new one for a fresh topic.
+ */
+async function openRun(options: CliOptions): Promise<RunCheckpoint> {
+  if (options.command === "resume") {
+    const runId = options.runId!;
+    if (!runExists(runId, options.outputDir)) {
+      throw new CliUsageError(
+        `Run "${runId}" not found in ${options.outputDir}`
+      );
+    }
+    const checkpoint = loadCheckpoint(runId, options.outputDir);
+    validateRunSettings(checkpoint.state.settings);
+    if (options.fromStage) {
+      resetStages(STAGES, checkpoint, options.fromStage);
+    }
+    console.log(`♻️  Resuming run ${runId} ("${checkpoint.state.topic}")`);
+    return checkpoint;
+  }
+
+  const settings = newRunSettings(options);
+  validateRunSettings(settings);
 
+  let topic = options.topic;
+  if (!topic) {
+    if (!process.stdin.isTTY) {
+      throw new CliUsageError("--topic is required when not running in a TTY");
+    }
+    topic = await promptForTopic();
+  }
+
+  const checkpoint = createRun({ topic, settings }, options.outputDir);
+  console.log(`🆔 Run ID: ${checkpoint.runId}`);
+  return checkpoint;
+}
+
+async function runBatchCommand(
+  options: CliOptions,
+  printJson: ((text: string) => void) | undefined
+): Promise<number> {
+  let items: BatchItem[];
   try {
-    // ----------------------------------------------------------------
-    // --- STAGE 1: Research ---
-    // ----------------------------------------------------------------
-    const researchData = await runResearchStage(TOPIC);
-    state.researchData = researchData;
-    console.log("📊 Research Data collected.");
-
-    // ----------------------------------------------------------------
-    // --- STAGE 2: Scripting (Loop with Human Review) ---
-    // ----------------------------------------------------------------
-    let scriptApproved = false;
-
-    while (!scriptApproved) {
-      const script = await runScriptingStage(state);
-      state.script = script;
-
-      // Run Review
-      const reviewResult = await runHumanReviewNode(script);
-
-      if (reviewResult.approved) {
-        console.log("✅ Script Approved!");
-        scriptApproved = true;
-        state.feedback = undefined;
-      } else {
-        console.log("🔄 Feedback received:", reviewResult.feedback);
-        state.feedback = reviewResult.feedback;
+    items = loadBatchFile(options.batchFile!);
+    items.forEach((item) => validateRunSettings(item.settings));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    return 2;
+  }
+
+  const report = await runBatch(STAGES, items, {
+    runsDir: options.outputDir,
+    concurrency: options.concurrency,
+    autoApprove: options.autoApprove,
+    refreshResearch: options.refreshResearch,
+  });
+  const reportPath = writeBatchReport(report, options.outputDir);
+
+  console.log("\n=================================");
+  console.log(
+    `📦 BATCH DONE: ${report.succeeded}/${report.total} succeeded, ${report.failed} failed`
+  );
+  for (const item of report.items) {
+    const outcome =
+      item.status === "succeeded"
+        ? `✅ ${item.artifacts.videoUrl}`
+        : `❌ ${item.error}`;
+    console.log(`   ${item.index}. ${item.topic} (${item.runId}) ${outcome}`);
+  }
+  console.log(`📝 Report: ${reportPath}`);
+  console.log("=================================\n");
+
+  printJson?.(JSON.stringify(report, null, 2) + "\n");
+  return report.failed > 0 ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(
+      argv,
+      STAGES.map((stage) => stage.name)
+    );
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`❌ ${error.message}`);
+      console.error(USAGE);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const printJson = options.json ? reserveStdoutForJson() : undefined;
+
+  if (options.command === "batch") {
+    return runBatchCommand(options, printJson);
+  }
+
+  if (options.command === "suggest") {
+    let topic: string | undefined;
+    try {
+      topic = await suggestTopic(options, printJson);
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`❌ ${error.message}`);
+        return 2;
       }
+      console.error("❌ Topic suggestion failed:", error);
+      return 1;
+    }
+    if (!topic) {
+      return 0;
     }
+    console.log(`▶️  Starting a run for "${topic}"`);
+    options = { ...options, command: "run", topic };
+  }
 
-    // ----------------------------------------------------------------
-    // --- STAGE 3: Audio Generation ---
-    // ----------------------------------------------------------------
-    if (state.script) {
-      // Logic: Generate audio and save to state
-      state.audioUrl = await runAudioStage(state.script);
-      console.log("🎧 Audio generated:", state.audioUrl);
-    } else {
-      console.warn("⚠️ No script available for audio generation.");
+  let checkpoint: RunCheckpoint;
+  try {
+    checkpoint = await openRun(options);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`❌ ${error.message}`);
+      console.error(USAGE);
+      return 2;
+    }
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      return 2;
     }
+    throw error;
+  }
 
-    // ----------------------------------------------------------------
-    // --- STAGE 4: Video Generation (HeyGen) ---
-    // ----------------------------------------------------------------
-    if (state.audioUrl) {
-      console.log("🎬 Starting Video Generation...");
-      const videoLink = await runVideoGenerationStage(state.audioUrl);
+  const { runId } = checkpoint;
+
+  if (!firstIncompleteStage(STAGES, checkpoint)) {
+    console.log(`✅ Run ${runId} is already complete.`);
+  }
+
+  try {
+    const state = await runPipeline(
+      STAGES,
+      checkpoint,
+      createPipelineContext(
+        checkpoint,
+        options.outputDir,
+        options.autoApprove,
+        options.refreshResearch
+      )
+    );
+
+    if (state.videoUrl) {
       console.log("\n=================================");
-      console.log("🚀 FINAL VIDEO READY:", videoLink);
+      console.log("🚀 FINAL VIDEO READY:", state.videoUrl);
       console.log("=================================\n");
-    } else {
-      console.log("⚠️ Skipping video generation: No audio URL provided.");
     }
+
+    printJson?.(
+      JSON.stringify({ status: "succeeded", ...checkpoint }, null, 2) + "\n"
+    );
+    return 0;
   } catch (error) {
     console.error("❌ Pipeline Failed:", error);
+    console.error(`💾 Progress saved. Continue with: resume ${runId}`);
+    printJson?.(
+      JSON.stringify(
+        {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          ...checkpoint,
+        },
+        null,
+        2
+      ) + "\n"
+    );
+    return 1;
   }
 }
 
-main();
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error("❌ Unexpected error:", error);
+    process.exitCode = 1;
+  }
+);
@@ -1,10 +1,248 @@
 // src/nodes/audio.ts
 import { Agent, hostedMcpTool, run } from "@openai/agents";
-import { createToolkitSession, COMPOSIO_USER_ID } from "../services/client.js";
+import type { Composio } from "@composio/core";
+import {
+  createToolkitSession,
+  getActiveConnectionId,
+  getComposioClient,
+  getComposioUserId,
+  COMPOSIO_USER_ID,
+} from "../services/client.js";
+import { resolveAudioConfig } from "../config/audio.js";
+import type { AudioConfig } from "../config/audio.js";
+import { getToolCallOutputs } from "./tool_outputs.js";
 
-export async function runAudioStage(scriptText: string) {
+const AUTH_LINK_HOST = "connect.composio.dev";
+const AUDIO_EXTENSIONS = [".mp3", ".wav", ".ogg", ".opus", ".m4a", ".aac", ".flac", ".pcm"];
+const MIME_TYPE_KEYS = ["mimetype", "mime_type", "mimeType", "content_type", "contentType"];
+
+/**
+ * Raised when the audio stage cannot produce a usable audio URL.
+ * `output` holds the agent's final text or the raw API response for debugging.
+ */
+export class AudioGenerationError extends Error {
+  readonly output: string;
+
+  constructor(message: string, output: string) {
+    super(message);
+    this.name = "AudioGenerationError";
+    this.output = output;
+  }
+}
+
+interface UrlCandidate {
+  url: string;
+  // Declared as audio by a sibling mimetype/content_type field
+  audioMimeType: boolean;
+}
+
+function parseHttpUrl(value: string): URL | undefined {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function walkForUrls(value: unknown, audioMimeType: boolean, found: UrlCandidate[]) {
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (parseHttpUrl(text)) {
+      found.push({ url: text, audioMimeType });
+    } else if (text.startsWith("{") || text.startsWith("[")) {
+      // MCP results often wrap the tool's JSON in a text field
+      try {
+        walkForUrls(JSON.parse(text), audioMimeType, found);
+      } catch {
+        // Not JSON; nothing to collect
+      }
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((entry) => walkForUrls(entry, audioMimeType, found));
+    return;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const isAudio =
+      audioMimeType ||
+      MIME_TYPE_KEYS.some((key) => {
+        const mime = record[key];
+        return typeof mime === "string" && mime.startsWith("audio/");
+      });
+    Object.values(record).forEach((entry) => walkForUrls(entry, isAudio, found));
+  }
+}
+
+function collectUrls(output: string): UrlCandidate[] {
+  const found: UrlCandidate[] = [];
+  walkForUrls(output, false, found);
+  if (found.length === 0) {
+    // Plain-text tool output: pick URLs out of the text
+    for (const match of output.matchAll(/https?:\/\/[^\s"'<>)\]]+/g)) {
+      found.push({ url: match[0], audioMimeType: false });
+    }
+  }
+  return found;
+}
+
+function isAudioUrl(candidate: UrlCandidate): boolean {
+  const url = parseHttpUrl(candidate.url);
+  if (!url || url.hostname === AUTH_LINK_HOST) {
+    return false;
+  }
+  const path = url.pathname.toLowerCase();
+  return (
+    candidate.audioMimeType ||
+    AUDIO_EXTENSIONS.some((extension) => path.endsWith(extension))
+  );
+}
+
+/**
+ * Returns the first audio URL found in the given outputs. With `bareOnly`,
+ * an output only counts if it is nothing but the URL, so a chatty model
+ * reply is never mined for links.
+ */
+function findAudioUrl(
+  outputs: string[],
+  { bareOnly = false }: { bareOnly?: boolean } = {}
+): string | undefined {
+  for (const output of outputs) {
+    const candidates = bareOnly
+      ? [{ url: output.trim(), audioMimeType: false }]
+      : collectUrls(output);
+    const match = candidates.find(isAudioUrl);
+    if (match) {
+      return match.url;
+    }
+  }
+  return undefined;
+}
+
+function reportAuthLink(authUrl: string, reason: string): never {
+  console.error(`\n🚨 AUTHENTICATION REQUIRED: ${reason}`);
+  console.error(
+    `👉 Please click here to authenticate ElevenLabs: ${authUrl}\n`
+  );
+  throw new Error(
+    "elevenlabs authentication pending. Please authenticate using the link above and restart."
+  );
+}
+
+/**
+ * Generates speech for the script and returns the audio URL, using the
+ * backend selected in the audio config. Throws AudioGenerationError when
+ * no valid audio URL comes back.
+ */
+export async function runAudioStage(
+  scriptText: string,
+  config: AudioConfig = resolveAudioConfig()
+) {
   console.log("\n--- STAGE 3: AUDIO GENERATION ---");
 
+  return config.backend === "direct"
+    ? generateSpeechDirect(scriptText, config)
+    : generateSpeechWithAgent(scriptText, config);
+}
+
+/**
+ * Returns the ElevenLabs connected account, or surfaces a Composio auth
+ * link when the user has not connected ElevenLabs yet.
+ */
+async function getElevenLabsConnectionId(composio: Composio): Promise<string> {
+  const authConfigId = process.env.ELEVENLABS_AUTH_CONFIG_ID;
+  try {
+    return await getActiveConnectionId("elevenlabs", authConfigId);
+  } catch (error) {
+    const request = await composio.toolkits.authorize(
+      getComposioUserId(),
+      "elevenlabs",
+      authConfigId
+    );
+    if (request.redirectUrl) {
+      reportAuthLink(request.redirectUrl, "ElevenLabs is not connected yet.");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Calls ElevenLabs text-to-speech through Composio's proxy. The proxy stores
+ * the binary response and hands back a download URL for it.
+ */
+async function generateSpeechDirect(
+  scriptText: string,
+  config: AudioConfig
+): Promise<string> {
+  const composio = getComposioClient();
+  const connectionId = await getElevenLabsConnectionId(composio);
+
+  console.log(
+    `🎙️ Generating speech for script (${scriptText.length} chars)...`
+  );
+
+  const response = await composio.tools.proxyExecute({
+    connectedAccountId: connectionId,
+    method: "POST",
+    endpoint: `/v1/text-to-speech/${encodeURIComponent(config.voiceId)}`,
+    parameters: [
+      { name: "output_format", value: config.outputFormat, in: "query" },
+    ],
+    body: {
+      text: scriptText,
+      model_id: config.modelId,
+      voice_settings: {
+        stability: config.stability,
+        similarity_boost: config.similarityBoost,
+        style: config.style,
+      },
+    },
+  });
+
+  const rawData = JSON.stringify(response.data ?? null);
+  const authLink = collectUrls(rawData).find((candidate) =>
+    candidate.url.includes(AUTH_LINK_HOST)
+  );
+  if (authLink) {
+    reportAuthLink(authLink.url, "ElevenLabs returned an auth link instead of audio.");
+  }
+
+  if (response.status >= 400) {
+    throw new AudioGenerationError(
+      `ElevenLabs text-to-speech failed with HTTP ${response.status}`,
+      rawData
+    );
+  }
+
+  const file = response.binary_data;
+  if (
+    file &&
+    isAudioUrl({
+      url: file.url,
+      audioMimeType: file.content_type.startsWith("audio/"),
+    })
+  ) {
+    return file.url;
+  }
+
+  throw new AudioGenerationError(
+    "ElevenLabs response did not include an audio file",
+    rawData
+  );
+}
+
+/**
+ * Lets a GPT-4o agent call the ElevenLabs MCP tool, then takes the audio URL
+ * from the tool result.
+ */
+async function generateSpeechWithAgent(
+  scriptText: string,
+  config: AudioConfig
+): Promise<string> {
   // 1. Create Session for ElevenLabs
   const voiceSession = await createToolkitSession(
     COMPOSIO_USER_ID,
@@ -22,11 +260,13 @@ export async function runAudioStage(scriptText: string) {
       Convert the input script into a speech file using the 'ELEVENLABS_TEXT_TO_SPEECH' tool.
       
       STRICT CONFIGURATION:
-      - Voice ID: "EIsgvJT3rwoPvRFG6c4n"
-      - Model ID: "eleven_multilingual_v2"
+      - Voice ID: "${config.voiceId}"
+      - Model ID: "${config.modelId}"
+      - Output Format: "${config.outputFormat}"
+      - Voice Settings: stability ${config.stability}, similarity_boost ${config.similarityBoost}, style ${config.style}
       
       CRITICAL OUTPUT RULES:
-      1. Execute the tool.
+      1. Execute the tool exactly once.
       2. The tool will provide a URL for the generated audio.
       3. Your Final Output must be **ONLY the raw URL string**.
       4. Do NOT use Markdown formatting (e.g. no [Link](url)).
@@ -52,29 +292,31 @@ export async function runAudioStage(scriptText: string) {
     `Generate audio for this script: \n"${scriptText}"`
   );
 
-  const rawOutput = result.finalOutput ?? "";
-
-  // 4. Safety Extraction (Fallback)
-  // Even with strict instructions, sometimes LLMs add text.
-  // This regex grabs the first https URL found in the response.
-  const urlMatch = rawOutput.match(/https?:\/\/[^\s\)]+/);
-
-  if (urlMatch) {
-    if (urlMatch[0].includes("connect.composio.dev")) {
-      console.error(
-        "\n🚨 AUTHENTICATION REQUIRED: The agent returned an auth link instead of audio."
-      );
-      console.error(
-        `👉 Please click here to authenticate ElevenLabs: ${urlMatch[0]}\n`
-      );
-      throw new Error(
-        "elevenlabs authentication pending. Please authenticate using the link above and restart."
-      );
-    }
-    // Return just the clean URL
-    return urlMatch[0];
+  // 4. Take the URL from the ElevenLabs tool result, not the model's prose
+  const toolOutputs = getToolCallOutputs(result.newItems ?? []);
+  const finalOutput = result.finalOutput ?? "";
+  const audioUrl =
+    findAudioUrl(toolOutputs) ?? findAudioUrl([finalOutput], { bareOnly: true });
+
+  if (audioUrl) {
+    return audioUrl;
   }
 
-  // If no URL pattern found, return raw (will likely fail next stage, but helpful for debugging)
-  return rawOutput;
+  const authLink = [...toolOutputs, finalOutput]
+    .flatMap(collectUrls)
+    .find((candidate) => candidate.url.includes(AUTH_LINK_HOST));
+
+  if (authLink) {
+    reportAuthLink(
+      authLink.url,
+      "The agent returned an auth link instead of audio."
+    );
+  }
+
+  throw new AudioGenerationError(
+    toolOutputs.length
+      ? "ElevenLabs tool call did not return an audio URL"
+      : "ElevenLabs tool was not called and the agent did not return an audio URL",
+    finalOutput
+  );
 }
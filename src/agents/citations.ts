@@ -0,0 +1,152 @@
+// src/agents/citations.ts
+import { Agent, run } from "@openai/agents";
+import { z } from "zod";
+import type {
+  CitedSource,
+  ResearchData,
+  ScriptCitation,
+} from "../state/state.js";
+
+// Tweets are long; the catalog only needs enough to recognise them
+const MAX_TITLE_LENGTH = 140;
+
+const citationOutputSchema = z.object({
+  citations: z.array(
+    z.object({
+      claim: z.string(),
+      sourceIds: z.array(z.string()),
+    })
+  ),
+});
+
+const truncate = (text: string) =>
+  text.length > MAX_TITLE_LENGTH
+    ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : text;
+
+/**
+ * Numbers every citable research item: news N1.., tweets T1.., videos V1..
+ */
+export function buildSourceCatalog(research: ResearchData): CitedSource[] {
+  return [
+    ...(research.news ?? []).map(
+      (n, i): CitedSource => ({
+        id: `N${i + 1}`,
+        type: "news",
+        title: n.title,
+        url: n.url,
+      })
+    ),
+    ...(research.twitterInsights ?? []).map(
+      (t, i): CitedSource => ({
+        id: `T${i + 1}`,
+        type: "tweet",
+        title: truncate(t.text.replace(/\s+/g, " ").trim()),
+        url: t.url,
+      })
+    ),
+    ...research.videos.map(
+      (v, i): CitedSource => ({
+        id: `V${i + 1}`,
+        type: "video",
+        title: v.title,
+        url: v.url,
+      })
+    ),
+  ];
+}
+
+/**
+ * Maps each factual claim in the script (numbers, names, dates, product
+ * features) to the research items it came from. Unknown source ids are
+ * dropped, so a claim can end up with no sources.
+ */
+export async function runCitationStage(
+  script: string,
+  research: ResearchData
+): Promise<ScriptCitation[]> {
+  const catalog = buildSourceCatalog(research);
+  if (catalog.length === 0) {
+    console.warn("⚠️ No citable research items; skipping citations.");
+    return [];
+  }
+
+  const agent = new Agent({
+    name: "Fact Tracer",
+    instructions: `
+      You trace the factual claims in a short video script back to research.
+
+      A claim is any specific fact a viewer could check: numbers, dollar
+      amounts, company or product names, people, dates and features. Quote
+      each claim as a short phrase copied from the script. Skip opinions,
+      the hook's framing and the call to action.
+
+      For each claim, list the ids of the sources below that state it.
+      Use an empty list when no source supports the claim. Never invent ids.
+    `,
+    outputType: citationOutputSchema,
+    model: "gpt-4o",
+  });
+
+  const sourceList = catalog
+    .map((source) => `[${source.id}] (${source.type}) ${source.title}`)
+    .join("\n");
+
+  console.log("🔎 Tracing script claims to sources...");
+  const result = await run(
+    agent,
+    `
+    SCRIPT:
+    ${script}
+
+    NEWS SUMMARY (covers the news sources):
+    ${research.trends}
+
+    SOURCES:
+    ${sourceList}
+  `
+  );
+
+  const output: z.infer<typeof citationOutputSchema> | undefined =
+    result.finalOutput;
+  const byId = new Map(catalog.map((source) => [source.id, source]));
+  const citations = (output?.citations ?? [])
+    .filter((citation) => citation.claim.trim())
+    .map(
+      (citation): ScriptCitation => ({
+        claim: citation.claim.trim(),
+        sources: [
+          ...new Set(citation.sourceIds.map((id) => id.trim().toUpperCase())),
+        ].flatMap((id) => {
+          const source = byId.get(id);
+          return source ? [source] : [];
+        }),
+      })
+    );
+
+  const unsourced = citations.filter((c) => c.sources.length === 0).length;
+  console.log(
+    `✅ Claims traced: ${citations.length} (${unsourced} without a source)`
+  );
+  return citations;
+}
+
+/**
+ * Renders citations for the review screen, one claim per line.
+ */
+export function formatCitations(citations: ScriptCitation[]): string {
+  if (citations.length === 0) {
+    return "No factual claims were traced to sources.";
+  }
+  return citations
+    .map((citation) => {
+      if (citation.sources.length === 0) {
+        return `⚠️ "${citation.claim}"\n     no supporting source`;
+      }
+      const sources = citation.sources
+        .map((s) => `     [${s.id}] ${s.title} (${s.url})`)
+        .join("\n");
+      return `• "${citation.claim}"\n${sources}`;
+    })
+    .join("\n");
+}
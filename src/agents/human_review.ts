@@ -1,8 +1,117 @@
 import inquirer from "inquirer";
+import type {
+  FactCheckReport,
+  RepeatMatch,
+  ScriptCitation,
+  ScriptVariant,
+  StyleViolation,
+} from "../state/state.js";
+import { formatFactCheck } from "../scripting/fact_check.js";
+import { formatStyleViolations } from "../scripting/style.js";
+import { formatVariants, mergeVariantLines } from "../scripting/variants.js";
+import { formatCitations } from "./citations.js";
+
+export interface HumanReviewOptions {
+  // Skip the prompt and approve any valid script (cron / CI runs)
+  autoApprove?: boolean | undefined;
+  // Shown under the script so claims can be checked against their sources
+  citations?: ScriptCitation[] | undefined;
+  // Numbers, dates and names the research does not back up
+  factCheck?: FactCheckReport | undefined;
+  // Writing rules the script breaks
+  styleViolations?: StyleViolation[] | undefined;
+  // Closest past video, when the script is too similar to it
+  repeatOf?: RepeatMatch | undefined;
+  // Scripts written in the same pass, best first; `script` is the first.
+  // The reviewer can approve any of them or merge their lines
+  variants?: ScriptVariant[] | undefined;
+}
+
+export interface HumanReviewResult {
+  approved: boolean;
+  feedback?: string | undefined;
+  // The approved script when it is not the one under review (another
+  // variant or a merge)
+  script?: string | undefined;
+}
+
+async function askForFeedback(): Promise<HumanReviewResult> {
+  const { feedback } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "feedback",
+      message: "What should be changed?",
+      default: "Make the hook punchier",
+    },
+  ]);
+  return { approved: false, feedback: feedback as string };
+}
+
+/**
+ * Lets the reviewer approve a variant by number, merge lines from several
+ * ("m") or reject them all ("n").
+ */
+async function reviewVariants(
+  variants: ScriptVariant[]
+): Promise<HumanReviewResult> {
+  const { choice } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "choice",
+      message: `Approve a variant (1-${variants.length}), merge lines (m) or reject all (n)?`,
+      default: "1",
+      validate: (value: string) => {
+        const answer = value.trim().toLowerCase();
+        const index = Number(answer);
+        return (
+          answer === "m" ||
+          answer === "n" ||
+          (Number.isInteger(index) && index >= 1 && index <= variants.length) ||
+          `Type a number from 1 to ${variants.length}, m or n`
+        );
+      },
+    },
+  ]);
+  const answer = (choice as string).trim().toLowerCase();
+
+  if (answer === "n") {
+    return askForFeedback();
+  }
+
+  if (answer === "m") {
+    const { lines } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "lines",
+        message: "Lines to keep, in speaking order (e.g. 2.1, 2.2, 1.3):",
+        validate: (value: string) => {
+          try {
+            mergeVariantLines(variants, value);
+            return true;
+          } catch (error) {
+            return (error as Error).message;
+          }
+        },
+      },
+    ]);
+    const script = mergeVariantLines(variants, lines as string);
+    console.log("\n--------------------------------");
+    console.log(script);
+    console.log("--------------------------------\n");
+    return { approved: true, script };
+  }
+
+  const chosen = variants[Number(answer) - 1]!;
+  return {
+    approved: true,
+    script: chosen === variants[0] ? undefined : chosen.script,
+  };
+}
 
 export async function runHumanReviewNode(
-  script: string | undefined
-): Promise<{ approved: boolean; feedback?: string | undefined }> {
+  script: string | undefined,
+  options: HumanReviewOptions = {}
+): Promise<HumanReviewResult> {
   console.log("\n--- 🕵️ HUMAN REVIEW STARTED ---");
 
   if (!script || script.startsWith("Error:")) {
@@ -10,10 +119,62 @@ export async function runHumanReviewNode(
     return { approved: false, feedback: "Script generation failed." };
   }
 
+  const variants =
+    options.variants && options.variants.length > 1
+      ? options.variants
+      : undefined;
+
   console.log("\n--------------------------------");
-  console.log(script);
+  console.log(variants ? formatVariants(variants) : script);
   console.log("--------------------------------\n");
 
+  if (variants) {
+    console.log("Sources and checks below are for variant 1.\n");
+  }
+
+  if (options.citations) {
+    console.log("📚 SOURCES:");
+    console.log(formatCitations(options.citations));
+    console.log("");
+  }
+
+  if (options.factCheck) {
+    console.log("🔎 FACT CHECK:");
+    console.log(formatFactCheck(options.factCheck));
+    console.log("");
+  }
+
+  if (options.styleViolations) {
+    console.log("✏️ STYLE CHECK:");
+    console.log(formatStyleViolations(options.styleViolations));
+    console.log("");
+  }
+
+  if (options.repeatOf) {
+    const { runId, topic, story, similarity } = options.repeatOf;
+    console.log(
+      `♻️ WARNING: ${Math.round(similarity * 100)}% similar to run ${runId} ("${topic}")`
+    );
+    console.log(`   Story: ${story}`);
+    console.log("");
+  }
+
+  if (options.autoApprove) {
+    console.log("🤖 Auto-approve enabled, skipping review prompt.");
+    return { approved: true, feedback: undefined };
+  }
+
+  // Without a TTY the prompt would hang forever (cron, pipes).
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      "Human review needs an interactive terminal. Re-run with --auto-approve."
+    );
+  }
+
+  if (variants) {
+    return reviewVariants(variants);
+  }
+
   // FIX: Use 'confirm' type instead of 'list'.
   // This works even if arrow keys don't work.
   // You just type 'y' for Yes or 'n' for No.
@@ -31,14 +192,6 @@ export async function runHumanReviewNode(
     return { approved: true, feedback: undefined };
   } else {
     // User typed 'n' or 'no'
-    const { feedback } = await inquirer.prompt([
-      {
-        type: "input",
-        name: "feedback",
-        message: "What should be changed?",
-        default: "Make the hook punchier",
-      },
-    ]);
-    return { approved: false, feedback: feedback as string };
+    return askForFeedback();
   }
 }
@@ -1,257 +1,236 @@
-import { Agent, hostedMcpTool, run } from "@openai/agents";
-import { createToolkitSession, COMPOSIO_USER_ID } from "../services/client.js";
 import type {
   ResearchData,
   VideoReference,
-  TwitterInsight,
+  VideoTranscript,
 } from "../state/state.js";
+import { resolveResearchConfig } from "../config/research.js";
+import type { ResearchConfig } from "../config/research.js";
+import { resolveTranscriptConfig } from "../config/transcripts.js";
+import { createResearchCache } from "../research/cache.js";
+import type { ResearchCache } from "../research/cache.js";
+import { exaSource } from "../research/exa.js";
+import { analyzeHooks } from "../research/hooks.js";
+import {
+  BUILT_IN_SOURCES,
+  resolveResearchSources,
+} from "../research/registry.js";
+import { runResearchSource, runWithTimeout } from "../research/source.js";
+import type {
+  ResearchSource,
+  SourceOutcome,
+  SourceRun,
+} from "../research/source.js";
+import { twitterSource } from "../research/twitter.js";
+import { youtubeSource } from "../research/youtube.js";
+import { computePacing } from "../transcripts/pacing.js";
+import { createTranscriptProvider } from "../transcripts/provider.js";
+import type { TranscriptProvider } from "../transcripts/provider.js";
+
+const NO_TRENDS = "No trends found.";
+const NO_TRANSCRIPTS = "No transcripts available.";
+
+// Runs after YouTube, for all selected videos together
+const TRANSCRIPTS_TIMEOUT_MS = 120_000;
+
+export interface ResearchOptions {
+  // Windows, thresholds and cache settings; resolved from config when unset
+  settings?: ResearchConfig | undefined;
+  // Sources to run by name; all registered sources when unset
+  sources?: readonly string[] | undefined;
+  // Per-source time limits by name (including "transcripts"), replacing
+  // each source's own timeoutMs
+  timeoutsMs?: Record<string, number> | undefined;
+  // Defaults to the configured provider; null turns transcripts off
+  transcriptProvider?: TranscriptProvider | null | undefined;
+  // Defaults to the configured on-disk cache; null turns caching off
+  cache?: ResearchCache | null | undefined;
+  // Ignore cached results for this run (--refresh-research)
+  refresh?: boolean | undefined;
+}
 
-export async function runResearchStage(topic: string): Promise<ResearchData> {
-  console.log(`\n--- STAGE 1: RESEARCHING "${topic}" ---`);
+/**
+ * The on-disk research cache, or undefined when its TTL is 0.
+ */
+function createConfiguredCache({
+  cacheDir,
+  cacheTtlHours,
+}: ResearchConfig): ResearchCache | undefined {
+  return cacheTtlHours > 0
+    ? createResearchCache(cacheDir, cacheTtlHours * 60 * 60 * 1000)
+    : undefined;
+}
 
-  // -------------------------------------------------------------
-  // 1. YOUTUBE DISCOVERY (Find Viral Shorts)
-  // -------------------------------------------------------------
-  const ytSession = await createToolkitSession(
-    COMPOSIO_USER_ID,
-    ["youtube"],
-    process.env.YOUTUBE_AUTH_CONFIG_ID
+/**
+ * Transcripts: timed captions for the top videos, reduced to pacing stats.
+ * Videos without a transcript are skipped with a warning.
+ */
+async function collectTranscripts(
+  videos: VideoReference[],
+  provider: TranscriptProvider,
+  maxVideos: number,
+  signal: AbortSignal
+): Promise<SourceOutcome<VideoTranscript>> {
+  const selected = videos.slice(0, maxVideos);
+  console.log(
+    `📝 Fetching transcripts for ${selected.length} videos (${provider.name})...`
   );
-  const ytAgent = new Agent({
-    name: "YouTube Scout",
-    instructions: `
-      Search YouTube for "${topic} #shorts". 
-      Set parameters: type='video', duration='short', order='viewCount'.
-
-      CRITICAL OUTPUT INSTRUCTIONS:
-      1. Return ONLY a valid JSON array.
-      2. Do NOT include markdown formatting.
-      3. Do NOT include conversational text.
-      4. Schema must be:
-        [
-          { "title": "string", "url": "string", "videoId": "string" }
-        ]
-    `,
-    tools: [
-      hostedMcpTool({
-        serverLabel: "tool_router",
-        serverUrl: ytSession.url,
-        headers: ytSession.headers,
-      }),
-    ],
-    model: "gpt-4o",
-  });
-
-  console.log("📺 Finding viral shorts...");
-  const ytResult = await run(ytAgent, "Find top 5 viral shorts.");
 
-  // Safe JSON Parsing
-  let videos: VideoReference[] = [];
-  if (ytResult.finalOutput) {
-    try {
-      const cleanJson = ytResult.finalOutput.replace(/```json|```/g, "").trim();
-      videos = JSON.parse(cleanJson);
-      console.log(`✅ Found ${videos.length} videos`);
-    } catch (e) {
-      console.error("⚠️ YouTube JSON parse failed:", e);
-      console.error("Raw output:", ytResult.finalOutput);
-
-      // Attempt fallback regex extraction
-      const match = ytResult.finalOutput.match(/\[.*\]/s);
-      if (match) {
-        try {
-          videos = JSON.parse(match[0]);
-          console.log(`✅ Recovered ${videos.length} videos from fallback`);
-        } catch (fallbackError) {
-          console.error("⚠️ Fallback regex parse also failed:", fallbackError);
-          videos = [];
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const results = await Promise.all(
+    selected.map(async (video): Promise<VideoTranscript | undefined> => {
+      try {
+        const segments = await provider.fetchTranscript(video, signal);
+        if (!segments?.length) {
+          warnings.push(`Transcripts: none available for ${video.videoId}`);
+          return undefined;
         }
-      } else {
-        console.error("⚠️ No JSON array found in output");
-        videos = [];
+        return {
+          videoId: video.videoId,
+          title: video.title,
+          provider: provider.name,
+          segments,
+          pacing: computePacing(segments),
+        };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        errors.push(reason);
+        warnings.push(`Transcripts: ${video.videoId} failed (${reason})`);
+        return undefined;
       }
-    }
-  }
-
-  // -------------------------------------------------------------
-  // 2. APIFY STAGE (COMMENTED OUT)
-  // -------------------------------------------------------------
-  let rawTranscripts = "Transcription disabled (Apify commented out).";
-
-  // -------------------------------------------------------------
-  // 3. EXA TRENDS (Fresh News)
-  // -------------------------------------------------------------
-  const exaSession = await createToolkitSession(
-    COMPOSIO_USER_ID,
-    ["exa"],
-    process.env.EXA_AUTH_CONFIG_ID
+    })
   );
-  const dateStr = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-    .toISOString()
-    .split("T")[0];
 
-  const trendAgent = new Agent({
-    name: "Trend Researcher",
-    instructions: `
-      You are a trend researcher. Your ONLY job is to search for news about a SPECIFIC topic.
+  const transcripts = results.filter(
+    (transcript): transcript is VideoTranscript => transcript !== undefined
+  );
+  if (errors.length === selected.length) {
+    // Every request failed, e.g. no Apify connection: report one reason
+    throw new Error(errors[0]);
+  }
+  console.log(`✅ Transcripts: ${transcripts.length}`);
 
-      THE TOPIC IS: "${topic}"
+  return { items: transcripts, warnings };
+}
 
-      You MUST call EXA_SEARCH with these EXACT parameters:
-      - query: "${topic}" (DO NOT change this - use this exact string)
-      - numResults: 5
-      - type: "neural"
-      - category: "news"
-      - startPublishedDate: "${dateStr}"
+/**
+ * Runs the enabled research sources concurrently. Each source reports
+ * ok / empty / failed in `sources`; the stage only fails when every source
+ * failed.
+ */
+export async function runResearchStage(
+  topic: string,
+  options: ResearchOptions = {}
+): Promise<ResearchData> {
+  console.log(`\n--- STAGE 1: RESEARCHING "${topic}" ---`);
 
-      DO NOT search for generic "AI news" or "latest developments".
-      ONLY search for: "${topic}"
+  const enabled = resolveResearchSources(options.sources);
+  const settings = options.settings ?? resolveResearchConfig();
+  const cache =
+    options.cache === undefined
+      ? createConfiguredCache(settings)
+      : options.cache;
+  const runs = new Map<string, SourceRun<unknown>>(
+    await Promise.all(
+      enabled.map(
+        async (source) =>
+          [
+            source.name,
+            await runResearchSource(source, topic, {
+              timeoutMs: options.timeoutsMs?.[source.name],
+              settings,
+              cache: cache ?? undefined,
+              refresh: options.refresh,
+            }),
+          ] as const
+      )
+    )
+  );
 
-      After receiving results, summarize the top 3 most relevant articles about "${topic}".
-    `,
-    tools: [
-      hostedMcpTool({
-        serverLabel: "tool_router",
-        serverUrl: exaSession.url,
-        headers: exaSession.headers,
-      }),
-    ],
-    model: "gpt-4o",
-  });
+  const sources = Object.fromEntries(
+    [...runs].map(([name, sourceRun]) => [name, sourceRun.status])
+  );
+  const queries = Object.fromEntries(
+    [...runs]
+      .filter(([, sourceRun]) => sourceRun.query !== undefined)
+      .map(([name, sourceRun]) => [name, sourceRun.query!])
+  );
+  const failures = Object.entries(sources).filter(
+    ([, source]) => source.status === "failed"
+  );
+  if (failures.length === runs.size) {
+    throw new Error(
+      `All research sources failed (${failures
+        .map(([name, source]) => `${name}: ${source.reason}`)
+        .join("; ")})`
+    );
+  }
 
-  console.log("📰 Finding trends (last 30 days)...");
-  const trendResult = await run(trendAgent, "Find fresh news.");
+  const itemsOf = <T>(source: ResearchSource<T>): T[] =>
+    (runs.get(source.name)?.outcome?.items ?? []) as T[];
 
   // -------------------------------------------------------------
-  // 4. TWITTER DISCOVERY (Latest Viral Threads)
+  // TRANSCRIPTS (needs the YouTube results)
   // -------------------------------------------------------------
-  const twitterSession = await createToolkitSession(
-    COMPOSIO_USER_ID,
-    ["twitter"],
-    process.env.TWITTER_AUTH_CONFIG_ID
+  const videos = itemsOf(youtubeSource);
+  const transcriptConfig = resolveTranscriptConfig();
+  const transcriptProvider =
+    options.transcriptProvider === undefined
+      ? createTranscriptProvider(transcriptConfig)
+      : options.transcriptProvider;
+
+  const transcripts =
+    transcriptProvider && videos.length > 0
+      ? await runWithTimeout(
+          "transcripts",
+          options.timeoutsMs?.transcripts ?? TRANSCRIPTS_TIMEOUT_MS,
+          (signal) =>
+            collectTranscripts(
+              videos,
+              transcriptProvider,
+              transcriptConfig.maxVideos,
+              signal
+            )
+        )
+      : undefined;
+  const videoTranscripts = transcripts?.outcome?.items ?? [];
+
+  const warnings = [
+    ...[...runs.values()].flatMap((run) => run.outcome?.warnings ?? []),
+    ...(transcripts?.outcome?.warnings ?? []),
+  ];
+  warnings.forEach((warning) => console.warn(`⚠️ ${warning}`));
+
+  // Registered sources beyond the built-ins keep their items by name
+  const sourceItems = Object.fromEntries(
+    [...runs]
+      .filter(([name]) => !BUILT_IN_SOURCES.some((s) => s.name === name))
+      .map(([name, sourceRun]) => [name, sourceRun.outcome?.items ?? []])
   );
 
-  // Extract key terms from the topic for a simpler, more effective search
-  // E.g., "claude code for development and coding" -> "Claude Code"
-  const extractKeyTerms = (fullTopic: string): string => {
-    // Remove common filler words
-    const fillerWords = [
-      "for", "and", "the", "a", "an", "in", "on", "with", "about", 
-      "how", "to", "of", "is", "are", "was", "were", "be", "been",
-      "being", "have", "has", "had", "do", "does", "did", "will",
-      "would", "could", "should", "may", "might", "must", "shall"
-    ];
-    
-    const words = fullTopic.toLowerCase().split(/\s+/);
-    const keyWords = words.filter(word => !fillerWords.includes(word) && word.length > 2);
-    
-    // Take the first 2-3 meaningful words to form the search query
-    const searchTerms = keyWords.slice(0, 3).join(" ");
-    
-    // Capitalize properly for better results
-    return searchTerms || fullTopic;
-  };
-
-  const twitterSearchQuery = extractKeyTerms(topic);
-  
-  // Calculate date 90 days ago for the search filter
-  const twitterDateStr = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)
-    .toISOString()
-    .split("T")[0];
-
-  console.log(`🔍 Twitter search query: "${twitterSearchQuery}"`);
-
-  const twitterAgent = new Agent({
-    name: "Twitter Scout",
-    instructions: `
-      You are a Twitter researcher finding VIRAL content.
-      
-      STEP 1 - SEARCH TWITTER:
-      Search for: "${twitterSearchQuery}"
-      
-      Use the Twitter search tool with these parameters:
-      - query: "${twitterSearchQuery}" (use this EXACT query, do NOT modify it)
-      - max_results: 10 (keep data manageable for the agent)
-      - sort_order: "relevancy" (prioritize popular/engaging tweets)
-      
-      STEP 2 - FILTER RESULTS:
-      From the search results, ONLY include tweets that have:
-      - 100+ likes (like_count >= 100)
-      - 5+ comments/replies (reply_count >= 5)
-      - Posted within the last 90 days (after ${twitterDateStr})
-      
-      If no tweets meet these criteria, lower the threshold slightly but prioritize the most engaged tweets.
-      
-      STEP 3 - RETURN TOP 5:
-      Return the TOP 5 most viral tweets based on engagement.
-
-      CRITICAL OUTPUT INSTRUCTIONS:
-      - Return ONLY valid JSON array.
-      - No markdown formatting. No text before or after.
-      - Schema MUST be exactly:
-        [
-          {
-            "text": "tweet content here",
-            "url": "https://twitter.com/user/status/id",
-            "likes": 150,
-            "comments": 10,
-            "views": 5000
-          }
-        ]
-      
-      If you find tweets, return them. If the API returns tweets that don't meet the engagement criteria, still return the best ones available with their actual metrics.
-    `,
-    tools: [
-      hostedMcpTool({
-        serverLabel: "tool_router",
-        serverUrl: twitterSession.url,
-        headers: twitterSession.headers,
-      }),
-    ],
-    model: "gpt-4o",
-  });
-
-  console.log("🐦 Fetching viral Twitter threads...");
-  const twitterResult = await run(twitterAgent, "Find viral threads.");
-
-  let twitterInsights: TwitterInsight[] = [];
-  if (twitterResult.finalOutput) {
-    try {
-      const cleanJson = twitterResult.finalOutput
-        .replace(/```json|```/g, "")
-        .trim();
-      twitterInsights = JSON.parse(cleanJson);
-      console.log(`✅ Twitter items: ${twitterInsights.length}`);
-    } catch (err) {
-      console.error("⚠️ Twitter JSON parse failed:", err);
-      console.error("Raw output:", twitterResult.finalOutput);
-
-      // Attempt fallback regex extraction
-      const match = twitterResult.finalOutput.match(/\[.*\]/s);
-      if (match) {
-        try {
-          twitterInsights = JSON.parse(match[0]);
-          console.log(
-            `✅ Recovered ${twitterInsights.length} items from fallback`
-          );
-        } catch (fallbackError) {
-          console.error("⚠️ Fallback regex parse also failed:", fallbackError);
-          twitterInsights = [];
-        }
-      } else {
-        console.error("⚠️ No JSON array found in output");
-        twitterInsights = [];
-      }
-    }
-  }
-
   // -------------------------------------------------------------
   // RETURN COMBINED RESEARCH DATA
   // -------------------------------------------------------------
   return {
     videos,
-    rawTranscripts,
-    trends: trendResult.finalOutput ?? "No trends found.",
-    twitterInsights,
+    rawTranscripts: videoTranscripts.length
+      ? videoTranscripts
+          .map(
+            (t) => `[${t.title}]\n${t.segments.map((s) => s.text).join(" ")}`
+          )
+          .join("\n\n")
+      : NO_TRANSCRIPTS,
+    trends: runs.get(exaSource.name)?.outcome?.summary ?? NO_TRENDS,
+    news: itemsOf(exaSource),
+    twitterInsights: itemsOf(twitterSource),
+    transcripts: videoTranscripts,
+    hookPatterns: analyzeHooks(videos, videoTranscripts),
+    sources: {
+      ...sources,
+      ...(transcripts && { transcripts: transcripts.status }),
+    },
+    queries,
+    ...(Object.keys(sourceItems).length > 0 && { sourceItems }),
+    ...(warnings.length > 0 && { warnings }),
   };
 }
@@ -0,0 +1,233 @@
+// src/agents/research_output.ts
+import { z } from "zod";
+import type {
+  NewsItem,
+  TwitterInsight,
+  VideoReference,
+} from "../state/state.js";
+
+// Models sometimes report counts as text ("1,234", "12K", "1.5M")
+const looseCount = z.union([z.number(), z.string()]);
+
+/**
+ * Output types handed to the scout agents. They only fix the shape of the
+ * response; per-item rules and coercion live in the item schemas below so a
+ * single bad item does not fail the whole run.
+ */
+export const youtubeScoutOutputSchema = z.object({
+  videos: z.array(
+    z.object({
+      title: z.string(),
+      url: z.string(),
+      videoId: z.string(),
+      viewCount: looseCount.nullable(),
+    })
+  ),
+});
+
+export const twitterScoutOutputSchema = z.object({
+  tweets: z.array(
+    z.object({
+      text: z.string(),
+      url: z.string(),
+      likes: looseCount,
+      comments: looseCount,
+      views: looseCount.nullable(),
+    })
+  ),
+});
+
+const COUNT_SUFFIXES: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000,
+};
+
+/**
+ * Turns "1,234", "12K" or "1.5M" into a number. Anything else is passed
+ * through so the number schema reports it.
+ */
+function parseCount(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  const match = value
+    .trim()
+    .replace(/,/g, "")
+    .match(/^(\d+(?:\.\d+)?)\s*([kmb])?$/i);
+  if (!match) {
+    return value;
+  }
+  const multiplier = match[2] ? COUNT_SUFFIXES[match[2].toLowerCase()]! : 1;
+  return Math.round(Number(match[1]) * multiplier);
+}
+
+const countSchema = z.preprocess(parseCount, z.number().int().nonnegative());
+
+export const videoReferenceSchema = z
+  .object({
+    title: z.string().trim().min(1),
+    url: z.url(),
+    videoId: z.string().trim().min(1),
+    // Search results often lack it; the statistics call fills it in
+    viewCount: countSchema.nullish().catch(undefined),
+  })
+  .transform(
+    ({ viewCount, ...video }): VideoReference =>
+      viewCount == null ? video : { ...video, viewCount }
+  );
+
+// "PT1M5S" -> 65
+export function parseIsoDuration(value: string): number | undefined {
+  const match = value.match(
+    /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (!match || value === "P" || value.endsWith("T")) {
+    return undefined;
+  }
+  const [, days = 0, hours = 0, minutes = 0, seconds = 0] = match;
+  return (
+    Number(days) * 86_400 +
+    Number(hours) * 3_600 +
+    Number(minutes) * 60 +
+    Number(seconds)
+  );
+}
+
+export type VideoStatistics = Pick<VideoReference, "videoId"> &
+  Partial<
+    Pick<
+      VideoReference,
+      | "viewCount"
+      | "likeCount"
+      | "commentCount"
+      | "durationSeconds"
+      | "channelTitle"
+      | "publishedAt"
+    >
+  >;
+
+/**
+ * One item of a YouTube Data API videos.list response (snippet,
+ * statistics and contentDetails parts). Counts arrive as strings.
+ */
+export const videoStatisticsSchema = z
+  .object({
+    id: z.string().min(1),
+    snippet: z
+      .object({
+        channelTitle: z.string().optional(),
+        publishedAt: z.string().optional(),
+      })
+      .optional(),
+    statistics: z
+      .object({
+        viewCount: countSchema.optional(),
+        likeCount: countSchema.optional(),
+        commentCount: countSchema.optional(),
+      })
+      .optional(),
+    contentDetails: z.object({ duration: z.string().optional() }).optional(),
+  })
+  .transform(({ id, snippet, statistics, contentDetails }): VideoStatistics => {
+    const durationSeconds = contentDetails?.duration
+      ? parseIsoDuration(contentDetails.duration)
+      : undefined;
+    const published = snippet?.publishedAt
+      ? Date.parse(snippet.publishedAt)
+      : NaN;
+    return {
+      videoId: id,
+      ...(statistics?.viewCount !== undefined && {
+        viewCount: statistics.viewCount,
+      }),
+      ...(statistics?.likeCount !== undefined && {
+        likeCount: statistics.likeCount,
+      }),
+      ...(statistics?.commentCount !== undefined && {
+        commentCount: statistics.commentCount,
+      }),
+      ...(durationSeconds !== undefined && { durationSeconds }),
+      ...(snippet?.channelTitle && { channelTitle: snippet.channelTitle }),
+      ...(!Number.isNaN(published) && {
+        publishedAt: new Date(published).toISOString().split("T")[0]!,
+      }),
+    };
+  });
+
+export const twitterInsightSchema = z
+  .object({
+    text: z.string().trim().min(1),
+    url: z.url(),
+    likes: countSchema,
+    comments: countSchema,
+    // Impression counts are often missing for other users' tweets
+    views: countSchema.nullish(),
+  })
+  .transform(
+    ({ views, ...tweet }): TwitterInsight => ({ ...tweet, views: views ?? 0 })
+  );
+
+// Exa reports full timestamps; scripts only need the day
+const publishedDateSchema = z
+  .string()
+  .nullish()
+  .transform((value) => {
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time)
+      ? undefined
+      : new Date(time).toISOString().split("T")[0];
+  });
+
+export const newsItemSchema = z
+  .object({
+    title: z.string().trim().min(1),
+    url: z.url(),
+    publishedDate: publishedDateSchema,
+    author: z
+      .string()
+      .nullish()
+      .transform((author) => author?.trim() || undefined),
+  })
+  .transform(
+    ({ publishedDate, author, ...item }): NewsItem => ({
+      ...item,
+      ...(publishedDate && { publishedDate }),
+      ...(author && { author }),
+    })
+  );
+
+export interface ParsedItems<T> {
+  items: T[];
+  warnings: string[];
+}
+
+/**
+ * Validates each item on its own. Invalid items are dropped and described
+ * in `warnings` instead of discarding the whole list.
+ */
+export function parseItems<T>(
+  schema: z.ZodType<T>,
+  items: unknown,
+  label: string
+): ParsedItems<T> {
+  const parsed: ParsedItems<T> = { items: [], warnings: [] };
+  if (!Array.isArray(items)) {
+    parsed.warnings.push(`${label}: no structured results returned`);
+    return parsed;
+  }
+
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      parsed.items.push(result.data);
+      return;
+    }
+    const reasons = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "item"}: ${issue.message}`)
+      .join("; ");
+    parsed.warnings.push(`${label}: dropped item ${index + 1} (${reasons})`);
+  });
+
+  return parsed;
+}
@@ -1,39 +1,150 @@
 // src/nodes/scripting.ts
 import { Agent, run } from "@openai/agents";
-import type { AgentState } from "../state/state.js";
+import { z } from "zod";
+import { formatHookPatterns, HOOK_PATTERNS } from "../research/hooks.js";
+import { getResearchSource } from "../research/registry.js";
+import { engagementRate, rankByEngagement } from "../research/youtube.js";
+import { formatCoveredVideos } from "../scripting/repeats.js";
+import { DEFAULT_STYLE_PROFILE } from "../config/style.js";
+import type { StyleProfile } from "../config/style.js";
+import { scoreScript, targetWordRange } from "../scripting/style.js";
+import { rankVariants } from "../scripting/variants.js";
+import type { VideoHistoryEntry } from "../state/history.js";
+import type {
+  AgentState,
+  ScriptVariant,
+  VideoReference,
+} from "../state/state.js";
+import { formatPacingReference } from "../transcripts/pacing.js";
 
-export async function runScriptingStage(state: AgentState) {
-  console.log("\n--- STAGE 2: WRITING SCRIPT ---");
+const scriptVariantsOutputSchema = z.object({
+  variants: z.array(
+    z.object({
+      story: z.string(),
+      hookPattern: z.enum(HOOK_PATTERNS).nullable(),
+      script: z.string(),
+    })
+  ),
+});
+
+function formatVideoStats(video: VideoReference): string {
+  const rate = engagementRate(video);
+  return [
+    `Views: ${video.viewCount ?? "N/A"}`,
+    video.likeCount !== undefined && `Likes: ${video.likeCount}`,
+    video.commentCount !== undefined && `Comments: ${video.commentCount}`,
+    rate !== undefined && `Engagement: ${(rate * 100).toFixed(1)}%`,
+    video.durationSeconds !== undefined && `Length: ${video.durationSeconds}s`,
+    video.channelTitle && `Channel: ${video.channelTitle}`,
+    video.publishedAt && `Published: ${video.publishedAt}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export interface ScriptingOptions {
+  // Persona, rules and length to write to; the default profile when unset
+  style?: StyleProfile | undefined;
+  // Past videos on related stories; the script is steered away from them
+  coveredVideos?: VideoHistoryEntry[] | undefined;
+}
+
+// The run's own targetSeconds wins over the profile's
+function resolveRunStyle(
+  state: AgentState,
+  options: ScriptingOptions
+): StyleProfile {
+  const style = options.style ?? DEFAULT_STYLE_PROFILE;
+  return {
+    ...style,
+    targetSeconds: state.settings?.targetSeconds ?? style.targetSeconds,
+  };
+}
+
+// Strips the code fences the model sometimes wraps plain text in
+function cleanScript(output: string): string {
+  return output
+    .replace(/^```(text|markdown)?/i, "")
+    .replace(/```$/, "")
+    .trim();
+}
 
+/**
+ * The source material and writing rules shared by single scripts and
+ * variants; the caller appends the task. Variants without a chosen hook
+ * pattern get the pattern counts but no single pattern to open with.
+ */
+function buildScriptPrompt(
+  state: AgentState,
+  options: ScriptingOptions,
+  variants = false
+): string {
   // Ensure we have research data
   if (!state.researchData) {
     throw new Error("Research data is missing!");
   }
 
   // 1. Serialize Research Data for the Context
-  const youtubeContext = state.researchData.videos
-    ? state.researchData.videos
+  // Sources that failed or came back empty leave an empty list behind
+  // Best engagement first: likes and comments per view say more about a
+  // hook than raw views
+  const youtubeContext = state.researchData.videos?.length
+    ? rankByEngagement(state.researchData.videos)
         .slice(0, 5)
-        .map(
-          (v) =>
-            `- Viral Hook/Title: "${v.title}" (Views: ${v.viewCount || "N/A"})`
-        )
+        .map((v) => `- Viral Hook/Title: "${v.title}" (${formatVideoStats(v)})`)
         .join("\n")
     : "No YouTube data available.";
 
-  const twitterContext = state.researchData.twitterInsights
+  const twitterContext = state.researchData.twitterInsights?.length
     ? state.researchData.twitterInsights
         .slice(0, 5)
         .map((t) => `- Public Sentiment: "${t.text}" (Likes: ${t.likes})`)
         .join("\n")
     : "No Twitter data available.";
 
-  const agent = new Agent({
-    name: "Viral Scriptwriter",
-    instructions:
-      "You are an expert short-form scriptwriter. You hate fluff. You love specific facts.",
-    model: "gpt-4o",
-  });
+  // Articles behind the summary; older runs only have the summary
+  const newsContext = state.researchData.news?.length
+    ? `
+    [NEWS ARTICLES]
+    The articles behind these facts:
+    ${state.researchData.news
+      .map((n) => {
+        const byline = [n.author, n.publishedDate].filter(Boolean).join(", ");
+        return `- "${n.title}"${byline ? ` (${byline})` : ""} ${n.url}`;
+      })
+      .join("\n    ")}
+`
+    : "";
+
+  // Registered sources beyond the built-ins, rendered by their own formatter
+  const extraContext = Object.entries(state.researchData.sourceItems ?? {})
+    .map(([name, items]) => {
+      const source = getResearchSource(name);
+      return source?.formatItems && items.length > 0
+        ? `\n    [${source.label.toUpperCase()}]\n    ${source.formatItems(items)}\n`
+        : "";
+    })
+    .join("");
+
+  // Runs checkpointed before hook analysis have no patterns to go on
+  const hookContext =
+    state.researchData.hookPatterns || state.settings?.hookPattern
+      ? `
+    [HOOK PATTERNS]
+    ${formatHookPatterns(
+      state.researchData.hookPatterns ?? [],
+      state.settings?.hookPattern,
+      variants
+    )}`
+      : "";
+
+  const coveredContext = options.coveredVideos?.length
+    ? `
+    [ALREADY COVERED]
+    We already published videos on these stories. Pick a different story from [CORE FACTS], or a clearly new angle on it, and do not reuse these hooks:
+    ${formatCoveredVideos(options.coveredVideos)}
+`
+    : "";
 
   // 2. Build the Source Material Context
   const promptContext = `
@@ -43,6 +154,7 @@ export async function runScriptingStage(state: AgentState) {
     Use these titles to understand what clicks, but do not copy them exactly:
     ${youtubeContext}
 
+${hookContext}
     [PUBLIC SENTIMENT FROM TWITTER]
     Use these to match the emotional tone or address controversy:
     ${twitterContext}
@@ -50,25 +162,38 @@ export async function runScriptingStage(state: AgentState) {
     [CORE FACTS & NEWS]
     Use these facts for the body of the script:
     ${state.researchData.trends}
-
+${newsContext}${extraContext}${coveredContext}
     [PACING REFERENCE]
-    ${state.researchData.rawTranscripts}
+    ${
+      // Runs checkpointed before transcripts existed only have the raw text
+      state.researchData.transcripts
+        ? formatPacingReference(state.researchData.transcripts)
+        : state.researchData.rawTranscripts
+    }
   `;
 
-  // 3. Define the Strict Style Guidelines (UPDATED)
+  // 3. Define the Strict Style Guidelines from the style profile
+  const style = resolveRunStyle(state, options);
+  const targetWords = targetWordRange(style.targetSeconds);
+  const bannedPhrases = style.bannedPhrases.map((p) => `"${p}"`).join(", ");
+  const extraRules = style.rules
+    .map((rule, i) => `${i + 6}. ${rule}`)
+    .join("\n    ");
+
   const styleGuidelines = `
     STRICT WRITING RULES:
     1. STRICTLY NO EMOJIS. Plain text only.
     2. COHESION: Pick ONE single news item/trend from [CORE FACTS] and tell that specific story. Do not combine unrelated sentences.
-    3. TONE: 6th-grade reading level. Conversational but factual.
-    4. BANNED WORDS: Do not use "game-changer", "mind-blowing", "groundbreaking", "future is here", "reshaping our lives", "unleash", "unlock", "imagine".
-    5. LENGTH: Approximately 30 seconds spoken aloud (aim for 75-85 words).
+    3. TONE: ${style.readingLevel} reading level. ${style.tone}
+    4. BANNED WORDS: ${bannedPhrases ? `Do not use ${bannedPhrases}.` : "None."}
+    5. LENGTH: Approximately ${style.targetSeconds} seconds spoken aloud (aim for ${
+      targetWords.min
+    }-${targetWords.max} words).
+    ${extraRules}
     
     STRUCTURE:
-    - Sentence 1 & 2: A specific Hook based on the chosen story. (e.g., "X just did Y and nobody noticed.")
-    - Sentence 3: The "Bridge". Explain specifically *why* the hook is happening using the facts.
-    - Body: Give concrete details (Company names, dollar amounts, specific features).
-    - Final Sentence: EXACTLY "Hit follow for more!"
+    ${style.structure.map((part) => `- ${part}`).join("\n    ")}
+    - Final Sentence: EXACTLY "${style.callToAction}"
     
     FORMATTING:
     - Return ONLY the spoken text. 
@@ -76,6 +201,21 @@ export async function runScriptingStage(state: AgentState) {
     - Start directly on the first word.
   `;
 
+  return `
+    ${promptContext}
+
+    ${styleGuidelines}
+  `;
+}
+
+export async function runScriptingStage(
+  state: AgentState,
+  options: ScriptingOptions = {}
+) {
+  console.log("\n--- STAGE 2: WRITING SCRIPT ---");
+
+  const prompt = buildScriptPrompt(state, options);
+
   let taskInstruction = "";
 
   // 4. Handle Regeneration vs First Run
@@ -101,13 +241,17 @@ export async function runScriptingStage(state: AgentState) {
 
   // 5. Final Prompt Assembly
   const fullPrompt = `
-    ${promptContext}
-
-    ${styleGuidelines}
+    ${prompt}
 
     ${taskInstruction}
   `;
 
+  const agent = new Agent({
+    name: "Viral Scriptwriter",
+    instructions: resolveRunStyle(state, options).persona,
+    model: "gpt-4o",
+  });
+
   const result = await run(agent, fullPrompt);
 
   // Check output existence
@@ -116,10 +260,83 @@ export async function runScriptingStage(state: AgentState) {
   }
 
   // Safe cleaning
-  const cleanOutput = result.finalOutput
-    .replace(/^```(text|markdown)?/i, "")
-    .replace(/```$/, "")
-    .trim();
+  return cleanScript(result.finalOutput);
+}
+
+/**
+ * Writes `count` scripts in one pass, each on a different story or with a
+ * different hook pattern, and ranks them by how well they follow the style
+ * rules.
+ */
+export async function runScriptVariantsStage(
+  state: AgentState,
+  count: number,
+  options: ScriptingOptions = {}
+): Promise<ScriptVariant[]> {
+  console.log(`\n--- STAGE 2: WRITING ${count} SCRIPT VARIANTS ---`);
+
+  const prompt = buildScriptPrompt(state, options, true);
+  const style = resolveRunStyle(state, options);
+  const chosenPattern = state.settings?.hookPattern;
 
-  return cleanOutput;
+  const feedbackInstruction = state.feedback
+    ? `
+      The previous scripts were all rejected.
+      Feedback: "${state.feedback}"
+      Fix every variant based on the feedback.
+    `
+    : "";
+  if (state.feedback) {
+    console.log(`\n⚠️ REGENERATING WITH FEEDBACK: "${state.feedback}"`);
+  }
+
+  const taskInstruction = `
+      TASK:
+      Write ${count} different scripts based on the Source Material. Each one
+      must follow every rule above on its own. ${
+        chosenPattern
+          ? `Make them genuinely different: tell a different story from
+      [CORE FACTS] in each. Every script opens with a "${chosenPattern}" hook.`
+          : `Make them genuinely different:
+      tell a different story from [CORE FACTS] in each, or open the same story
+      with a different hook pattern (${HOOK_PATTERNS.join(", ")}).`
+      }
+      For each script give the story it tells in one short sentence and the
+      hook pattern it opens with (null if none fits).
+      ${feedbackInstruction}
+  `;
+
+  const agent = new Agent({
+    name: "Viral Scriptwriter",
+    instructions: style.persona,
+    outputType: scriptVariantsOutputSchema,
+    model: "gpt-4o",
+  });
+
+  const result = await run(
+    agent,
+    `
+    ${prompt}
+
+    ${taskInstruction}
+  `
+  );
+
+  const output: z.infer<typeof scriptVariantsOutputSchema> | undefined =
+    result.finalOutput;
+  const variants = (output?.variants ?? [])
+    .map((variant) => ({ ...variant, script: cleanScript(variant.script) }))
+    .filter((variant) => variant.script)
+    .slice(0, count)
+    .map(({ story, hookPattern, script }) => ({
+      script,
+      story,
+      ...(hookPattern && { hookPattern }),
+      ...scoreScript(script, style),
+    }));
+
+  if (variants.length === 0) {
+    throw new Error("Viral Scriptwriter failed to generate a response.");
+  }
+  return rankVariants(variants);
 }
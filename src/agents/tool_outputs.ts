@@ -0,0 +1,19 @@
+// src/agents/tool_outputs.ts
+import type { RunItem } from "@openai/agents";
+
+/**
+ * Outputs of the hosted MCP calls made during a run, oldest first. These are
+ * the raw tool results, as opposed to what the model chose to repeat.
+ */
+export function getToolCallOutputs(items: readonly RunItem[]): string[] {
+  return items.flatMap((item) => {
+    if (item.type !== "tool_call_item") {
+      return [];
+    }
+    const rawItem = item.rawItem as { type?: string; output?: unknown };
+    return rawItem.type === "hosted_tool_call" &&
+      typeof rawItem.output === "string"
+      ? [rawItem.output]
+      : [];
+  });
+}
@@ -0,0 +1,137 @@
+// src/agents/topic_ideas.ts
+import { Agent, run } from "@openai/agents";
+import { z } from "zod";
+import type { CitedSource, ResearchData } from "../state/state.js";
+import { buildSourceCatalog } from "./citations.js";
+
+// How many topics to propose unless the caller asks for another number
+export const DEFAULT_SUGGESTION_COUNT = 5;
+
+const topicIdeasOutputSchema = z.object({
+  topics: z.array(
+    z.object({
+      topic: z.string(),
+      reason: z.string(),
+      sourceIds: z.array(z.string()),
+    })
+  ),
+});
+
+// A proposed video topic, best first
+export interface TopicSuggestion {
+  rank: number;
+  // Specific enough to be used as a --topic
+  topic: string;
+  // Why it should perform now
+  reason: string;
+  // Research items that show the interest
+  evidence: CitedSource[];
+}
+
+/**
+ * Proposes specific video topics from research on a broad niche, ranked by
+ * how likely they are to perform. Topics without at least one known source
+ * id as evidence are dropped, as are repeats.
+ */
+export async function runTopicSuggestionStage(
+  niche: string,
+  research: ResearchData,
+  count = DEFAULT_SUGGESTION_COUNT
+): Promise<TopicSuggestion[]> {
+  const catalog = buildSourceCatalog(research);
+  if (catalog.length === 0) {
+    throw new Error(`No research found for "${niche}" to suggest topics from`);
+  }
+
+  const agent = new Agent({
+    name: "Topic Strategist",
+    instructions: `
+      You plan short-form videos for a channel about "${niche}".
+
+      From the research below, propose up to ${count} SPECIFIC video topics,
+      best first. A good topic is one concrete story, product, release or
+      debate (e.g. "Cursor's new background agents" rather than "AI coding
+      tools"), phrased as a short search-friendly title.
+
+      Rank by what is getting attention right now: fresh news, tweets with
+      high engagement and shorts with many views. For each topic give a one
+      sentence reason and the ids of the sources that show the interest.
+      Every topic needs at least one source. Never invent ids.
+    `,
+    outputType: topicIdeasOutputSchema,
+    model: "gpt-4o",
+  });
+
+  const sourceList = catalog
+    .map((source) => `[${source.id}] (${source.type}) ${source.title}`)
+    .join("\n");
+
+  console.log(`💡 Suggesting topics for "${niche}"...`);
+  const result = await run(
+    agent,
+    `
+    NEWS SUMMARY (covers the news sources):
+    ${research.trends}
+
+    SOURCES:
+    ${sourceList}
+  `
+  );
+
+  const output: z.infer<typeof topicIdeasOutputSchema> | undefined =
+    result.finalOutput;
+  const byId = new Map(catalog.map((source) => [source.id, source]));
+  const seen = new Set<string>();
+  const suggestions: TopicSuggestion[] = [];
+  let unsupported = 0;
+
+  for (const idea of output?.topics ?? []) {
+    const topic = idea.topic.trim();
+    if (!topic || seen.has(topic.toLowerCase())) {
+      continue;
+    }
+    const evidence = [
+      ...new Set(idea.sourceIds.map((id) => id.trim().toUpperCase())),
+    ].flatMap((id) => {
+      const source = byId.get(id);
+      return source ? [source] : [];
+    });
+    if (evidence.length === 0) {
+      unsupported++;
+      continue;
+    }
+    seen.add(topic.toLowerCase());
+    suggestions.push({
+      rank: suggestions.length + 1,
+      topic,
+      reason: idea.reason.trim(),
+      evidence,
+    });
+    if (suggestions.length === count) {
+      break;
+    }
+  }
+
+  if (unsupported > 0) {
+    console.warn(`⚠️ Dropped ${unsupported} topic(s) without evidence`);
+  }
+  console.log(`✅ Topics suggested: ${suggestions.length}`);
+  return suggestions;
+}
+
+/**
+ * Renders suggestions as a numbered list with reasons and evidence.
+ */
+export function formatTopicSuggestions(suggestions: TopicSuggestion[]): string {
+  if (suggestions.length === 0) {
+    return "No topics could be suggested from the research.";
+  }
+  return suggestions
+    .map((suggestion) => {
+      const evidence = suggestion.evidence
+        .map((s) => `     [${s.id}] ${s.title} (${s.url})`)
+        .join("\n");
+      return `${suggestion.rank}. ${suggestion.topic}\n     ${suggestion.reason}\n${evidence}`;
+    })
+    .join("\n");
+}
@@ -3,12 +3,14 @@ import {
   getComposioClient,
   getHeyGenConnectionId,
 } from "../services/client.js";
+import type { Composio } from "@composio/core";
+import { getVideoDimensions, resolveVideoConfig } from "../config/video.js";
+import type { VideoBackground, VideoConfig } from "../config/video.js";
 import * as fs from "fs";
 import * as path from "path";
 import * as https from "https";
 import * as os from "os";
 
-const AVATAR_ID = "109cdee34a164003b0e847ffce93828e"; // Jasmine
 const POLLING_INTERVAL = 15000; // 15 seconds
 const MAX_POLLING_ATTEMPTS = 60; // 10 minutes total (40 * 15s)
 
@@ -36,13 +38,29 @@ interface HeyGenStatusResponse {
   data?: HeyGenStatusData;
 }
 
+export interface VideoGenerationOptions {
+  // Directory for the downloaded mp4 (defaults to ~/Downloads)
+  outputDir?: string | undefined;
+  // Avatar, background and format (defaults to resolveVideoConfig())
+  config?: VideoConfig | undefined;
+  // Existing HeyGen video_id to re-poll instead of starting a new render
+  videoId?: string | undefined;
+  // Called once HeyGen accepts the job, so callers can checkpoint the id
+  onVideoStarted?: ((videoId: string) => void | Promise<void>) | undefined;
+  // Called when HeyGen reports the job as failed; re-polling it cannot help
+  onVideoFailed?: ((videoId: string) => void | Promise<void>) | undefined;
+}
+
 /**
- * Download video from signed URL to Downloads folder
+ * Download video from signed URL to the output folder (~/Downloads by default)
  */
-async function downloadVideo(videoUrl: string): Promise<string> {
+async function downloadVideo(
+  videoUrl: string,
+  outputDir?: string
+): Promise<string> {
   const timestamp = Date.now();
   const filename = `heygen_video_${timestamp}.mp4`;
-  const downloadsPath = path.join(os.homedir(), "Downloads");
+  const downloadsPath = outputDir ?? path.join(os.homedir(), "Downloads");
   const outputPath = path.join(downloadsPath, filename);
 
   console.log(`⬇️  Downloading video...`);
@@ -77,35 +95,49 @@ async function downloadVideo(videoUrl: string): Promise<string> {
   });
 }
 
-export async function runVideoGenerationStage(audioUrl: string) {
-  console.log("\n--- STAGE 4: VIDEO GENERATION (HEYGEN) ---");
-
-  // Initialize client (ensures env vars are valid)
-  const composio = getComposioClient();
-
-  // 1. Auth
-  const connectionId = await getHeyGenConnectionId("HEYGEN");
-  console.log("🔌 Using HeyGen Connection ID:", connectionId);
+/**
+ * Maps a configured background to HeyGen's video_inputs background object
+ */
+function toHeyGenBackground(background: VideoBackground) {
+  switch (background.type) {
+    case "color":
+      return { type: "color", value: background.value };
+    case "image":
+      return { type: "image", url: background.url };
+    case "video":
+      return {
+        type: "video",
+        url: background.url,
+        play_style: background.playStyle,
+      };
+  }
+}
 
+/**
+ * Submits the render job to HeyGen and returns its video_id
+ */
+async function startVideoGeneration(
+  composio: Composio,
+  connectionId: string,
+  audioUrl: string,
+  config: VideoConfig
+): Promise<string> {
   // 2. Payload
   const payload = {
-    test: false,
-    dimension: { width: 720, height: 1280 },
+    test: config.test,
+    dimension: getVideoDimensions(config.aspectRatio, config.resolution),
     video_inputs: [
       {
         character: {
           type: "avatar",
-          avatar_id: AVATAR_ID,
-          avatar_style: "normal",
+          avatar_id: config.avatarId,
+          avatar_style: config.avatarStyle,
         },
         voice: {
           type: "audio",
           audio_url: audioUrl,
         },
-        background: {
-          type: "color",
-          value: "#FFFFFF",
-        },
+        background: toHeyGenBackground(config.background),
       },
     ],
   };
@@ -131,7 +163,36 @@ export async function runVideoGenerationStage(audioUrl: string) {
     throw new Error("No Video ID received from HeyGen.");
   }
 
-  console.log(`⏳ Generation started! Video ID: ${videoId}`);
+  return videoId;
+}
+
+export async function runVideoGenerationStage(
+  audioUrl: string,
+  options: VideoGenerationOptions = {}
+) {
+  console.log("\n--- STAGE 4: VIDEO GENERATION (HEYGEN) ---");
+
+  // Initialize client (ensures env vars are valid)
+  const composio = getComposioClient();
+
+  // 1. Auth
+  const connectionId = await getHeyGenConnectionId("HEYGEN");
+  console.log("🔌 Using HeyGen Connection ID:", connectionId);
+
+  let videoId = options.videoId;
+
+  if (videoId) {
+    console.log(`♻️  Resuming existing HeyGen job. Video ID: ${videoId}`);
+  } else {
+    videoId = await startVideoGeneration(
+      composio,
+      connectionId,
+      audioUrl,
+      options.config ?? resolveVideoConfig()
+    );
+    console.log(`⏳ Generation started! Video ID: ${videoId}`);
+    await options.onVideoStarted?.(videoId);
+  }
 
   // 4. Polling with timeout
   let attempts = 0;
@@ -170,7 +231,7 @@ export async function runVideoGenerationStage(audioUrl: string) {
       console.log("=================================\n");
 
       // ⬇️ Download immediately
-      const savedPath = await downloadVideo(videoUrl);
+      const savedPath = await downloadVideo(videoUrl, options.outputDir);
       console.log(`🎉 Video saved at: ${savedPath}`);
 
       return {
@@ -180,6 +241,7 @@ export async function runVideoGenerationStage(audioUrl: string) {
     }
 
     if (status === "failed") {
+      await options.onVideoFailed?.(videoId);
       throw new Error(`Generation Failed: ${JSON.stringify(statusData.error)}`);
     }
 
@@ -0,0 +1,156 @@
+// src/batch/input.ts
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { parseSourceList } from "../cli/args.js";
+import { HOOK_PATTERNS } from "../research/hooks.js";
+import type { RunSettings } from "../state/state.js";
+
+// One row of the batch file: a topic plus optional per-topic overrides
+const batchItemSchema = z.object({
+  topic: z.string().trim().min(1, "topic is required"),
+  avatarId: z.string().trim().min(1).optional(),
+  voiceId: z.string().trim().min(1).optional(),
+  audioProfile: z.string().trim().min(1).optional(),
+  videoProfile: z.string().trim().min(1).optional(),
+  researchProfile: z.string().trim().min(1).optional(),
+  styleProfile: z.string().trim().min(1).optional(),
+  targetSeconds: z.coerce.number().int().min(10).max(180).optional(),
+  hookPattern: z.enum(HOOK_PATTERNS).optional(),
+  // "youtube;exa" in CSV, a string or an array in JSONL
+  sources: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) =>
+      parseSourceList(Array.isArray(value) ? value.join(",") : value)
+    )
+    .pipe(z.array(z.string()).min(1, "sources must name at least one source"))
+    .optional(),
+});
+
+export interface BatchItem {
+  topic: string;
+  settings: RunSettings;
+}
+
+/**
+ * Splits one CSV line into fields. Supports double-quoted fields with
+ * embedded commas and "" escapes; multi-line fields are not supported.
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function parseCsv(content: string): Record<string, unknown>[] {
+  const [headerLine, ...rows] = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+  if (!headerLine) return [];
+
+  const headers = parseCsvLine(headerLine).map((h) => h.trim());
+  return rows.map((row) => {
+    const values = parseCsvLine(row);
+    // Empty cells mean "no override"
+    return Object.fromEntries(
+      headers
+        .map((header, i) => [header, values[i]?.trim()] as const)
+        .filter(([, value]) => value !== undefined && value !== "")
+    );
+  });
+}
+
+function parseJsonl(content: string): unknown[] {
+  return content
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), lineNumber: i + 1 }))
+    .filter(({ line }) => line !== "")
+    .map(({ line, lineNumber }) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${lineNumber}`);
+      }
+    });
+}
+
+/**
+ * Reads a .csv or .jsonl batch file and validates every row.
+ * Throws one error listing all invalid rows.
+ */
+export function loadBatchFile(filePath: string): BatchItem[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Batch file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  const extension = path.extname(filePath).toLowerCase();
+
+  let rows: unknown[];
+  if (extension === ".csv") {
+    rows = parseCsv(content);
+  } else if (extension === ".jsonl" || extension === ".ndjson") {
+    rows = parseJsonl(content);
+  } else {
+    throw new Error(
+      `Unsupported batch file type "${extension}". Use .csv or .jsonl`
+    );
+  }
+
+  const items: BatchItem[] = [];
+  const problems: string[] = [];
+
+  rows.forEach((row, i) => {
+    const result = batchItemSchema.safeParse(row);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`)
+        .join("; ");
+      problems.push(`  - item ${i + 1}: ${issues}`);
+      return;
+    }
+
+    const { topic, voiceId, avatarId, sources, ...settings } = result.data;
+    items.push({
+      topic,
+      settings: {
+        ...settings,
+        ...(sources && { researchSources: sources }),
+        ...(voiceId && { audio: { voiceId } }),
+        ...(avatarId && { video: { avatarId } }),
+      },
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid batch file ${filePath}:\n${problems.join("\n")}`);
+  }
+  if (items.length === 0) {
+    throw new Error(`Batch file ${filePath} contains no topics`);
+  }
+
+  return items;
+}
@@ -0,0 +1,159 @@
+// src/batch/runner.ts
+import * as fs from "fs";
+import * as path from "path";
+import {
+  createPipelineContext,
+  runPipeline,
+} from "../pipeline/pipeline.js";
+import type { RegisteredStage } from "../pipeline/pipeline.js";
+import { createRun } from "../state/store.js";
+import type { BatchItem } from "./input.js";
+
+export interface BatchOptions {
+  runsDir: string;
+  concurrency: number;
+  autoApprove: boolean;
+  refreshResearch?: boolean | undefined;
+}
+
+export interface BatchItemReport {
+  index: number;
+  topic: string;
+  runId: string;
+  status: "succeeded" | "failed";
+  durationMs: number;
+  artifacts: {
+    script?: string | undefined;
+    audioUrl?: string | undefined;
+    videoUrl?: string | undefined;
+    videoPath?: string | undefined;
+  };
+  error?: string | undefined;
+}
+
+export interface BatchReport {
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: BatchItemReport[];
+}
+
+/**
+ * Maps `items` through `worker` with at most `limit` calls in flight,
+ * preserving input order in the result.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const lanes = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await worker(items[index]!, index);
+      }
+    }
+  );
+
+  await Promise.all(lanes);
+  return results;
+}
+
+async function runBatchItem(
+  stages: readonly RegisteredStage[],
+  item: BatchItem,
+  index: number,
+  options: BatchOptions
+): Promise<BatchItemReport> {
+  const startedAt = Date.now();
+  const checkpoint = createRun(
+    { topic: item.topic, settings: item.settings },
+    options.runsDir
+  );
+  console.log(`📦 [${index + 1}] "${item.topic}" → run ${checkpoint.runId}`);
+
+  const report = (
+    status: BatchItemReport["status"],
+    error?: string
+  ): BatchItemReport => ({
+    index: index + 1,
+    topic: item.topic,
+    runId: checkpoint.runId,
+    status,
+    durationMs: Date.now() - startedAt,
+    artifacts: {
+      script: checkpoint.state.script,
+      audioUrl: checkpoint.state.audioUrl,
+      videoUrl: checkpoint.state.videoUrl,
+      videoPath: checkpoint.state.videoPath,
+    },
+    error,
+  });
+
+  try {
+    await runPipeline(
+      stages,
+      checkpoint,
+      createPipelineContext(
+        checkpoint,
+        options.runsDir,
+        options.autoApprove,
+        options.refreshResearch
+      )
+    );
+    return report("succeeded");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ [${index + 1}] "${item.topic}" failed: ${message}`);
+    return report("failed", message);
+  }
+}
+
+/**
+ * Runs the pipeline once per batch item. A failing topic never stops the
+ * others; its error is recorded in the report instead.
+ */
+export async function runBatch(
+  stages: readonly RegisteredStage[],
+  items: readonly BatchItem[],
+  options: BatchOptions
+): Promise<BatchReport> {
+  const startedAt = new Date().toISOString();
+  console.log(
+    `\n--- BATCH: ${items.length} topic(s), concurrency ${options.concurrency} ---`
+  );
+
+  const results = await mapWithConcurrency(
+    items,
+    options.concurrency,
+    (item, index) => runBatchItem(stages, item, index, options)
+  );
+
+  const succeeded = results.filter((r) => r.status === "succeeded").length;
+  return {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    items: results,
+  };
+}
+
+/**
+ * Writes the report next to the run folders and returns its path.
+ */
+export function writeBatchReport(report: BatchReport, runsDir: string): string {
+  fs.mkdirSync(runsDir, { recursive: true });
+  const stamp = report.startedAt.replace(/[-:]/g, "").replace(/\..*$/, "");
+  const reportPath = path.join(runsDir, `batch-${stamp}.json`);
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  return reportPath;
+}
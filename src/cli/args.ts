@@ -0,0 +1,265 @@
+// src/cli/args.ts
+import { parseArgs } from "node:util";
+import { HOOK_PATTERNS } from "../research/hooks.js";
+import type { HookPattern } from "../research/hooks.js";
+import { DEFAULT_RUNS_DIR } from "../state/store.js";
+
+export type CliCommand = "run" | "resume" | "batch" | "suggest";
+
+const COMMANDS_WITH_ARGUMENT: Record<Exclude<CliCommand, "run">, string> = {
+  resume: "a run id",
+  batch: "a .csv or .jsonl file",
+  suggest: 'a niche, e.g. "AI developer tools"',
+};
+
+export interface CliOptions {
+  command: CliCommand;
+  // Set for `resume <runId>`
+  runId?: string | undefined;
+  // Set for `batch <file>`
+  batchFile?: string | undefined;
+  // Set for `suggest <niche>`
+  niche?: string | undefined;
+  concurrency: number;
+  topic?: string | undefined;
+  // Named ElevenLabs profile from the config file
+  audioProfile?: string | undefined;
+  // Named HeyGen profile from the config file
+  videoProfile?: string | undefined;
+  // Named research profile from the config file
+  researchProfile?: string | undefined;
+  // Named style profile from the styles folder
+  styleProfile?: string | undefined;
+  // Research sources to run, from --sources
+  sources?: string[] | undefined;
+  // Hook pattern the script must open with
+  hookPattern?: HookPattern | undefined;
+  autoApprove: boolean;
+  // Ignore cached research results
+  refreshResearch: boolean;
+  fromStage?: string | undefined;
+  outputDir: string;
+  json: boolean;
+  help: boolean;
+}
+
+// Own keys only: "toString" and friends are not commands
+const isCommandWithArgument = (
+  name: string
+): name is keyof typeof COMMANDS_WITH_ARGUMENT =>
+  Object.prototype.hasOwnProperty.call(COMMANDS_WITH_ARGUMENT, name);
+
+/**
+ * Thrown when the command line cannot be turned into a valid run.
+ * index.ts maps this to exit code 2 and prints the usage text.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export const USAGE = `
+Usage: video-content-agent [run] [options]
+       video-content-agent resume <runId> [options]
+       video-content-agent batch <file> [options]
+       video-content-agent suggest <niche> [options]
+
+Commands:
+  resume <runId>              Continue a run from its first incomplete stage
+  batch <file>                Run every topic in a .csv or .jsonl file
+                              (columns: topic, avatarId, voiceId, audioProfile,
+                               videoProfile, researchProfile, targetSeconds,
+                               styleProfile, sources, hookPattern)
+  suggest <niche>             Research a broad niche, propose ranked topics and
+                              run the pipeline on the one you pick (with --json
+                              or without a TTY, only print the suggestions)
+
+Options:
+  -t, --topic <text>          Topic to generate a video for (prompted if omitted on a TTY)
+  -y, --auto-approve          Approve the first generated script without a review prompt
+      --from-stage <stage>    With resume: re-run this stage and every later one
+  -o, --output-dir <dir>      Directory holding run folders (default: ${DEFAULT_RUNS_DIR})
+      --audio-profile <name>  Named voice profile from video-agent.config.json
+      --video-profile <name>  Named avatar/background profile from video-agent.config.json
+      --research-profile <name>
+                              Named research windows/thresholds profile
+      --style-profile <name>  Named persona/rules profile from the styles folder
+      --sources <list>        Comma-separated research sources to run (default: all)
+      --hook-pattern <name>   Hook to open with: question, contrarian, number or
+                              just-did (default: the one top videos use most)
+      --refresh-research      Ignore cached research results and search again
+  -c, --concurrency <n>       With batch: topics processed in parallel (default: 1)
+      --json                  Print the final state as JSON on stdout (logs go to stderr)
+  -h, --help                  Show this help
+
+Exit codes: 0 success, 1 stage failure, 2 usage error.
+`;
+
+/**
+ * Splits "youtube, exa" or "youtube;exa" into source names.
+ */
+export function parseSourceList(value: string): string[] {
+  return value
+    .split(/[,;\s]+/)
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Parses process arguments (without the node/script prefix) into CliOptions.
+ * `stageNames` lists the pipeline stages in order, for --from-stage.
+ */
+export function parseCliArgs(
+  argv: string[],
+  stageNames: readonly string[]
+): CliOptions {
+  let values;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      options: {
+        topic: { type: "string", short: "t" },
+        "auto-approve": { type: "boolean", short: "y", default: false },
+        "from-stage": { type: "string" },
+        "output-dir": { type: "string", short: "o" },
+        "audio-profile": { type: "string" },
+        "video-profile": { type: "string" },
+        "research-profile": { type: "string" },
+        "style-profile": { type: "string" },
+        sources: { type: "string" },
+        "hook-pattern": { type: "string" },
+        "refresh-research": { type: "boolean", default: false },
+        concurrency: { type: "string", short: "c" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+      strict: true,
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+
+  const [commandName = "run", ...rest] = positionals;
+  if (commandName !== "run" && !isCommandWithArgument(commandName)) {
+    throw new CliUsageError(`Unknown command "${commandName}"`);
+  }
+  const command: CliCommand = commandName;
+  // `run` takes no argument, the other commands exactly one
+  const [argument, ...extra] = command === "run" ? [undefined, ...rest] : rest;
+  if (command !== "run" && !argument?.trim()) {
+    throw new CliUsageError(
+      `${command} requires ${COMMANDS_WITH_ARGUMENT[command]}`
+    );
+  }
+  if (extra.length > 0) {
+    throw new CliUsageError(`Unexpected arguments: ${extra.join(" ")}`);
+  }
+
+  const topic = values.topic?.trim();
+  if (values.topic !== undefined && !topic) {
+    throw new CliUsageError("--topic must not be empty");
+  }
+
+  const fromStage = values["from-stage"];
+  if (fromStage !== undefined && !stageNames.includes(fromStage)) {
+    throw new CliUsageError(
+      `Unknown stage "${fromStage}". Expected one of: ${stageNames.join(", ")}`
+    );
+  }
+
+  // Later stages need the state produced by earlier ones.
+  if (fromStage && fromStage !== stageNames[0] && command !== "resume") {
+    throw new CliUsageError("--from-stage requires resume <runId>");
+  }
+
+  if (command === "resume" && topic) {
+    throw new CliUsageError("--topic cannot be changed when resuming a run");
+  }
+
+  if (
+    (command === "batch" || command === "suggest") &&
+    (topic || fromStage)
+  ) {
+    throw new CliUsageError(
+      `--topic and --from-stage cannot be used with ${command}`
+    );
+  }
+
+  // Settings are fixed when a run is created (batch uses per-row columns;
+  // suggest uses them for its research and the run it starts)
+  const audioProfile = values["audio-profile"];
+  const videoProfile = values["video-profile"];
+  const researchProfile = values["research-profile"];
+  const styleProfile = values["style-profile"];
+  if (
+    (audioProfile ||
+      videoProfile ||
+      researchProfile ||
+      styleProfile ||
+      values.sources) &&
+    command !== "run" &&
+    command !== "suggest"
+  ) {
+    throw new CliUsageError(
+      "--audio-profile, --video-profile, --research-profile, --style-profile and --sources only apply to new runs"
+    );
+  }
+
+  const hookPattern = values["hook-pattern"];
+  if (hookPattern !== undefined && command !== "run" && command !== "suggest") {
+    throw new CliUsageError(
+      "--hook-pattern only applies to new runs (batch uses the hookPattern column)"
+    );
+  }
+  if (
+    hookPattern !== undefined &&
+    !(HOOK_PATTERNS as readonly string[]).includes(hookPattern)
+  ) {
+    throw new CliUsageError(
+      `Unknown hook pattern "${hookPattern}". Expected one of: ${HOOK_PATTERNS.join(", ")}`
+    );
+  }
+
+  const sources =
+    values.sources === undefined ? undefined : parseSourceList(values.sources);
+  if (sources?.length === 0) {
+    throw new CliUsageError("--sources must name at least one source");
+  }
+
+  const concurrency = Number(values.concurrency ?? 1);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new CliUsageError("--concurrency must be a positive integer");
+  }
+  if (command !== "batch" && values.concurrency !== undefined) {
+    throw new CliUsageError("--concurrency only applies to batch");
+  }
+  // Parallel topics cannot share one review prompt
+  if (command === "batch" && concurrency > 1 && !values["auto-approve"]) {
+    throw new CliUsageError("--concurrency above 1 requires --auto-approve");
+  }
+
+  return {
+    command,
+    runId: command === "resume" ? argument : undefined,
+    batchFile: command === "batch" ? argument : undefined,
+    niche: command === "suggest" ? argument?.trim() : undefined,
+    concurrency,
+    topic,
+    audioProfile,
+    videoProfile,
+    researchProfile,
+    styleProfile,
+    sources,
+    hookPattern: hookPattern as HookPattern | undefined,
+    autoApprove: values["auto-approve"],
+    refreshResearch: values["refresh-research"],
+    fromStage,
+    outputDir: values["output-dir"] ?? DEFAULT_RUNS_DIR,
+    json: values.json,
+    help: values.help,
+  };
+}
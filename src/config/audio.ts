@@ -0,0 +1,105 @@
+// src/config/audio.ts
+import { z } from "zod";
+import { definedOnly, parseConfig, resolveProfiledSection } from "./file.js";
+import type { ProfileSelection } from "./file.js";
+
+// Output formats accepted by ElevenLabs text-to-speech
+export const AUDIO_OUTPUT_FORMATS = [
+  "mp3_22050_32",
+  "mp3_44100_64",
+  "mp3_44100_96",
+  "mp3_44100_128",
+  "mp3_44100_192",
+  "pcm_16000",
+  "pcm_22050",
+  "pcm_24000",
+  "pcm_44100",
+  "ulaw_8000",
+] as const;
+
+// "agent": a GPT-4o agent calls the ElevenLabs MCP tool
+// "direct": one text-to-speech request through Composio's proxy, no LLM
+export const AUDIO_BACKENDS = ["agent", "direct"] as const;
+
+const unitInterval = z.number().min(0).max(1);
+
+export const audioConfigSchema = z.object({
+  backend: z.enum(AUDIO_BACKENDS),
+  voiceId: z.string().min(1),
+  modelId: z.string().min(1),
+  stability: unitInterval,
+  similarityBoost: unitInterval,
+  style: unitInterval,
+  outputFormat: z.enum(AUDIO_OUTPUT_FORMATS),
+});
+
+export type AudioConfig = z.infer<typeof audioConfigSchema>;
+export type AudioOverrides = {
+  [K in keyof AudioConfig]?: AudioConfig[K] | undefined;
+};
+
+export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  backend: "agent",
+  voiceId: "EIsgvJT3rwoPvRFG6c4n", // Clara
+  modelId: "eleven_multilingual_v2",
+  stability: 0.5,
+  similarityBoost: 0.75,
+  style: 0,
+  outputFormat: "mp3_44100_128",
+};
+
+const audioEnvSchema = z.object({
+  ELEVENLABS_BACKEND: z.string().optional(),
+  ELEVENLABS_VOICE_ID: z.string().optional(),
+  ELEVENLABS_MODEL_ID: z.string().optional(),
+  ELEVENLABS_STABILITY: z.coerce.number().optional(),
+  ELEVENLABS_SIMILARITY_BOOST: z.coerce.number().optional(),
+  ELEVENLABS_STYLE: z.coerce.number().optional(),
+  ELEVENLABS_OUTPUT_FORMAT: z.string().optional(),
+});
+
+function readAudioEnv(): AudioOverrides {
+  const env = parseConfig(
+    audioEnvSchema,
+    definedOnly({
+      ELEVENLABS_BACKEND: process.env.ELEVENLABS_BACKEND,
+      ELEVENLABS_VOICE_ID: process.env.ELEVENLABS_VOICE_ID,
+      ELEVENLABS_MODEL_ID: process.env.ELEVENLABS_MODEL_ID,
+      ELEVENLABS_STABILITY: process.env.ELEVENLABS_STABILITY,
+      ELEVENLABS_SIMILARITY_BOOST: process.env.ELEVENLABS_SIMILARITY_BOOST,
+      ELEVENLABS_STYLE: process.env.ELEVENLABS_STYLE,
+      ELEVENLABS_OUTPUT_FORMAT: process.env.ELEVENLABS_OUTPUT_FORMAT,
+    }),
+    "env"
+  );
+  return definedOnly({
+    backend: env.ELEVENLABS_BACKEND,
+    voiceId: env.ELEVENLABS_VOICE_ID,
+    modelId: env.ELEVENLABS_MODEL_ID,
+    stability: env.ELEVENLABS_STABILITY,
+    similarityBoost: env.ELEVENLABS_SIMILARITY_BOOST,
+    style: env.ELEVENLABS_STYLE,
+    outputFormat: env.ELEVENLABS_OUTPUT_FORMAT,
+  }) as AudioOverrides;
+}
+
+export type AudioConfigSelection = ProfileSelection<AudioConfig>;
+
+/**
+ * Resolves the ElevenLabs settings for one run.
+ *
+ * Precedence (lowest first): built-in defaults, config file "audio" section,
+ * ELEVENLABS_* env vars, the selected profile, per-run overrides.
+ * Throws a ConfigError if the merged result is invalid.
+ */
+export function resolveAudioConfig(
+  selection: AudioConfigSelection = {}
+): AudioConfig {
+  return resolveProfiledSection(
+    "audio",
+    audioConfigSchema,
+    DEFAULT_AUDIO_CONFIG,
+    readAudioEnv() as Partial<AudioConfig>,
+    selection
+  );
+}
@@ -0,0 +1,145 @@
+// src/config/file.ts
+import * as fs from "fs";
+import { z } from "zod";
+
+// Looked up in the working directory unless VIDEO_AGENT_CONFIG points elsewhere
+export const DEFAULT_CONFIG_PATH = "video-agent.config.json";
+
+/**
+ * Raised for a missing, unreadable or invalid configuration.
+ * index.ts maps it to exit code 2.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+let cachedFile: { path: string; data: Record<string, unknown> } | null = null;
+
+/**
+ * Reads the JSON config file once. A missing default file means
+ * "no file config"; a missing file named by VIDEO_AGENT_CONFIG is an error.
+ */
+export function readConfigFile(): Record<string, unknown> {
+  const explicitPath = process.env.VIDEO_AGENT_CONFIG;
+  const configPath = explicitPath || DEFAULT_CONFIG_PATH;
+
+  if (cachedFile && cachedFile.path === configPath) {
+    return cachedFile.data;
+  }
+
+  let data: Record<string, unknown> = {};
+  if (fs.existsSync(configPath)) {
+    try {
+      data = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    } catch (error) {
+      throw new ConfigError(
+        `Could not parse ${configPath}: ${(error as Error).message}`
+      );
+    }
+  } else if (explicitPath) {
+    throw new ConfigError(`Config file not found: ${configPath}`);
+  }
+
+  cachedFile = { path: configPath, data };
+  return data;
+}
+
+/**
+ * Clears the cached file, e.g. after tests change VIDEO_AGENT_CONFIG.
+ */
+export function resetConfigCache(): void {
+  cachedFile = null;
+}
+
+/**
+ * Validates `value` against `schema`, throwing a ConfigError that lists
+ * every issue under the given label (same format as the env check).
+ */
+export function parseConfig<T extends z.ZodType>(
+  schema: T,
+  value: unknown,
+  label: string
+): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `   - ${[label, ...issue.path].join(".")}: ${issue.message}`)
+      .join("\n");
+    throw new ConfigError(`Invalid ${label} configuration:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Drops undefined values so optional env vars do not mask file settings.
+ */
+export function definedOnly<T extends Record<string, unknown>>(
+  value: T
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && v !== "")
+  ) as Partial<T>;
+}
+
+export interface ProfileSelection<T> {
+  // Name of a profile under "<section>.profiles" in the config file
+  profile?: string | undefined;
+  // Per-run values, applied last
+  overrides?: { [K in keyof T]?: T[K] | undefined } | undefined;
+}
+
+/**
+ * Resolves one config section that supports named profiles.
+ *
+ * Precedence (lowest first): `defaults`, the file section, `env`,
+ * the selected profile, per-run overrides. Every layer is validated, and so
+ * is the merged result; failures throw a ConfigError.
+ */
+export function resolveProfiledSection<S extends z.ZodObject>(
+  section: string,
+  schema: S,
+  defaults: z.infer<S>,
+  env: Partial<z.infer<S>>,
+  selection: ProfileSelection<z.infer<S>> = {}
+): z.infer<S> {
+  const partialSchema = schema.partial();
+  const fileSchema = partialSchema.extend({
+    profiles: z.record(z.string(), partialSchema).default({}),
+  });
+
+  const { profiles, ...fileSettings } = parseConfig(
+    fileSchema,
+    readConfigFile()[section] ?? {},
+    section
+  ) as { profiles: Record<string, Record<string, unknown>> } & Record<
+    string,
+    unknown
+  >;
+
+  let profileSettings: Record<string, unknown> = {};
+  if (selection.profile) {
+    const profile = profiles[selection.profile];
+    if (!profile) {
+      const known = Object.keys(profiles).join(", ") || "none defined";
+      throw new ConfigError(
+        `Unknown ${section} profile "${selection.profile}" (available: ${known})`
+      );
+    }
+    profileSettings = definedOnly(profile);
+  }
+
+  return parseConfig(
+    schema,
+    {
+      ...defaults,
+      ...definedOnly(fileSettings),
+      ...definedOnly(env as Record<string, unknown>),
+      ...profileSettings,
+      ...definedOnly((selection.overrides ?? {}) as Record<string, unknown>),
+    },
+    section
+  );
+}
@@ -0,0 +1,94 @@
+// src/config/research.ts
+import { z } from "zod";
+import { definedOnly, parseConfig, resolveProfiledSection } from "./file.js";
+import type { ProfileSelection } from "./file.js";
+
+const days = z.number().int().min(1).max(365);
+const count = z.number().int().min(0);
+
+export const researchConfigSchema = z.object({
+  // One folder per source, one JSON file per cached result
+  cacheDir: z.string().min(1),
+  // How long a cached source result is reused; 0 turns the cache off
+  cacheTtlHours: z.number().min(0),
+  // Only news published in the last N days
+  exaLookbackDays: days,
+  // Only tweets posted in the last N days
+  twitterLookbackDays: days,
+  // Tweets requested from the search before filtering
+  twitterMaxResults: z.number().int().min(10).max(100),
+  // Engagement a tweet needs to be kept, checked after parsing
+  twitterMinLikes: count,
+  twitterMinComments: count,
+});
+
+export type ResearchConfig = z.infer<typeof researchConfigSchema>;
+export type ResearchOverrides = {
+  [K in keyof ResearchConfig]?: ResearchConfig[K] | undefined;
+};
+
+export const DEFAULT_RESEARCH_CONFIG: ResearchConfig = {
+  cacheDir: ".cache/research",
+  cacheTtlHours: 12,
+  exaLookbackDays: 30,
+  twitterLookbackDays: 90,
+  twitterMaxResults: 10,
+  twitterMinLikes: 100,
+  twitterMinComments: 5,
+};
+
+const researchEnvSchema = z.object({
+  RESEARCH_CACHE_DIR: z.string().optional(),
+  RESEARCH_CACHE_TTL_HOURS: z.coerce.number().optional(),
+  EXA_LOOKBACK_DAYS: z.coerce.number().optional(),
+  TWITTER_LOOKBACK_DAYS: z.coerce.number().optional(),
+  TWITTER_MAX_RESULTS: z.coerce.number().optional(),
+  TWITTER_MIN_LIKES: z.coerce.number().optional(),
+  TWITTER_MIN_COMMENTS: z.coerce.number().optional(),
+});
+
+function readResearchEnv(): ResearchOverrides {
+  const env = parseConfig(
+    researchEnvSchema,
+    definedOnly({
+      RESEARCH_CACHE_DIR: process.env.RESEARCH_CACHE_DIR,
+      RESEARCH_CACHE_TTL_HOURS: process.env.RESEARCH_CACHE_TTL_HOURS,
+      EXA_LOOKBACK_DAYS: process.env.EXA_LOOKBACK_DAYS,
+      TWITTER_LOOKBACK_DAYS: process.env.TWITTER_LOOKBACK_DAYS,
+      TWITTER_MAX_RESULTS: process.env.TWITTER_MAX_RESULTS,
+      TWITTER_MIN_LIKES: process.env.TWITTER_MIN_LIKES,
+      TWITTER_MIN_COMMENTS: process.env.TWITTER_MIN_COMMENTS,
+    }),
+    "env"
+  );
+  return definedOnly({
+    cacheDir: env.RESEARCH_CACHE_DIR,
+    cacheTtlHours: env.RESEARCH_CACHE_TTL_HOURS,
+    exaLookbackDays: env.EXA_LOOKBACK_DAYS,
+    twitterLookbackDays: env.TWITTER_LOOKBACK_DAYS,
+    twitterMaxResults: env.TWITTER_MAX_RESULTS,
+    twitterMinLikes: env.TWITTER_MIN_LIKES,
+    twitterMinComments: env.TWITTER_MIN_COMMENTS,
+  });
+}
+
+export type ResearchConfigSelection = ProfileSelection<ResearchConfig>;
+
+/**
+ * Resolves the research settings for one run.
+ *
+ * Precedence (lowest first): built-in defaults, config file "research"
+ * section, RESEARCH_* / EXA_* / TWITTER_* env vars, the selected profile,
+ * per-run overrides. Throws a ConfigError if invalid.
+ */
+export function resolveResearchConfig(
+  selection: ResearchConfigSelection = {}
+): ResearchConfig {
+  return resolveProfiledSection(
+    "research",
+    researchConfigSchema,
+    DEFAULT_RESEARCH_CONFIG,
+    readResearchEnv() as Partial<ResearchConfig>,
+    selection
+  );
+}
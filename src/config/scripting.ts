@@ -0,0 +1,104 @@
+// src/config/scripting.ts
+import { z } from "zod";
+import { definedOnly, parseConfig, readConfigFile } from "./file.js";
+
+// How the fact check and style lint act on problems they find:
+// "regenerate": rewrite the script with the problems as feedback, then
+//   show whatever is left at review
+// "flag": only show the problems at review
+// "off": skip the check
+export const CHECK_MODES = ["regenerate", "flag", "off"] as const;
+
+export const scriptingConfigSchema = z.object({
+  factCheck: z.enum(CHECK_MODES),
+  // Automatic rewrites per script before it goes to review anyway
+  factCheckRetries: z.number().int().min(0).max(3),
+  styleLint: z.enum(CHECK_MODES),
+  // Automatic rewrites per script for broken style rules
+  styleLintRetries: z.number().int().min(0).max(3),
+  // Similarity (0-1) to a past video's script that triggers a review warning
+  repeatThreshold: z.number().min(0).max(1),
+  // Scripts written per pass for the reviewer to pick from or merge
+  variants: z.number().int().min(1).max(5),
+  // Folder of style profile files (<name>.json, .yaml or .yml)
+  styleDir: z.string().min(1),
+  // Style profile used when a run does not pick one
+  styleProfile: z.string().min(1),
+});
+
+export type ScriptingConfig = z.infer<typeof scriptingConfigSchema>;
+
+export const DEFAULT_SCRIPTING_CONFIG: ScriptingConfig = {
+  factCheck: "regenerate",
+  factCheckRetries: 1,
+  styleLint: "regenerate",
+  styleLintRetries: 2,
+  repeatThreshold: 0.6,
+  variants: 1,
+  styleDir: "styles",
+  styleProfile: "default",
+};
+
+const scriptingEnvSchema = z.object({
+  FACT_CHECK_MODE: z.string().optional(),
+  FACT_CHECK_RETRIES: z.coerce.number().optional(),
+  STYLE_LINT_MODE: z.string().optional(),
+  STYLE_LINT_RETRIES: z.coerce.number().optional(),
+  REPEAT_THRESHOLD: z.coerce.number().optional(),
+  SCRIPT_VARIANTS: z.coerce.number().optional(),
+  STYLE_DIR: z.string().optional(),
+  STYLE_PROFILE: z.string().optional(),
+});
+
+function readScriptingEnv(): Partial<ScriptingConfig> {
+  const env = parseConfig(
+    scriptingEnvSchema,
+    definedOnly({
+      FACT_CHECK_MODE: process.env.FACT_CHECK_MODE,
+      FACT_CHECK_RETRIES: process.env.FACT_CHECK_RETRIES,
+      STYLE_LINT_MODE: process.env.STYLE_LINT_MODE,
+      STYLE_LINT_RETRIES: process.env.STYLE_LINT_RETRIES,
+      REPEAT_THRESHOLD: process.env.REPEAT_THRESHOLD,
+      SCRIPT_VARIANTS: process.env.SCRIPT_VARIANTS,
+      STYLE_DIR: process.env.STYLE_DIR,
+      STYLE_PROFILE: process.env.STYLE_PROFILE,
+    }),
+    "env"
+  );
+  return definedOnly({
+    factCheck: env.FACT_CHECK_MODE,
+    factCheckRetries: env.FACT_CHECK_RETRIES,
+    styleLint: env.STYLE_LINT_MODE,
+    styleLintRetries: env.STYLE_LINT_RETRIES,
+    repeatThreshold: env.REPEAT_THRESHOLD,
+    variants: env.SCRIPT_VARIANTS,
+    styleDir: env.STYLE_DIR,
+    styleProfile: env.STYLE_PROFILE,
+  }) as Partial<ScriptingConfig>;
+}
+
+/**
+ * Resolves the script writing and checking settings.
+ *
+ * Precedence (lowest first): built-in defaults, config file "scripting"
+ * section, FACT_CHECK_*, STYLE_*, REPEAT_THRESHOLD and SCRIPT_VARIANTS env
+ * vars. Throws a
+ * ConfigError if invalid.
+ */
+export function resolveScriptingConfig(): ScriptingConfig {
+  const fileSettings = parseConfig(
+    scriptingConfigSchema.partial(),
+    readConfigFile().scripting ?? {},
+    "scripting"
+  );
+
+  return parseConfig(
+    scriptingConfigSchema,
+    {
+      ...DEFAULT_SCRIPTING_CONFIG,
+      ...definedOnly(fileSettings),
+      ...readScriptingEnv(),
+    },
+    "scripting"
+  );
+}
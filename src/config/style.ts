@@ -0,0 +1,147 @@
+// src/config/style.ts
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { ConfigError, definedOnly, parseConfig } from "./file.js";
+import type { ProfileSelection } from "./file.js";
+import { resolveScriptingConfig } from "./scripting.js";
+
+// Built in; a file named default.json / default.yaml replaces it
+export const DEFAULT_STYLE_PROFILE_NAME = "default";
+
+const STYLE_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+const line = z.string().trim().min(1);
+
+export const styleProfileSchema = z.object({
+  // System instructions for the scriptwriter
+  persona: line,
+  // e.g. "6th-grade"
+  readingLevel: line,
+  tone: line,
+  // Case-insensitive; the script linter rejects any of them
+  bannedPhrases: z.array(line),
+  // The exact closing sentence(s) of every script
+  callToAction: line,
+  // Spoken length; a run's targetSeconds takes precedence
+  targetSeconds: z.number().int().min(10).max(180),
+  // One line per part of the script; the call to action is added last
+  structure: z.array(line).min(1),
+  // Extra writing rules, numbered after the built-in ones
+  rules: z.array(line),
+});
+
+export type StyleProfile = z.infer<typeof styleProfileSchema>;
+
+export const DEFAULT_STYLE_PROFILE: StyleProfile = {
+  persona:
+    "You are an expert short-form scriptwriter. You hate fluff. You love specific facts.",
+  readingLevel: "6th-grade",
+  tone: "Conversational but factual.",
+  bannedPhrases: [
+    "game-changer",
+    "mind-blowing",
+    "groundbreaking",
+    "future is here",
+    "reshaping our lives",
+    "unleash",
+    "unlock",
+    "imagine",
+  ],
+  callToAction: "Hit follow for more!",
+  targetSeconds: 30,
+  structure: [
+    'Sentence 1 & 2: A specific Hook based on the chosen story, in the pattern named in [HOOK PATTERNS] if there is one. (e.g., "X just did Y and nobody noticed.")',
+    'Sentence 3: The "Bridge". Explain specifically *why* the hook is happening using the facts.',
+    "Body: Give concrete details (Company names, dollar amounts, specific features).",
+  ],
+  rules: [],
+};
+
+// Files only list what they change; unknown keys are typos
+const styleFileSchema = styleProfileSchema.partial().strict();
+
+/**
+ * Reads every .json, .yaml and .yml file in `dir` as a style profile named
+ * after the file. A missing directory means "no profiles". Throws a
+ * ConfigError for a file that cannot be parsed or is invalid.
+ */
+export function loadStyleProfiles(
+  dir: string
+): Record<string, Partial<StyleProfile>> {
+  if (!fs.existsSync(dir)) {
+    return {};
+  }
+
+  const profiles: Record<string, Partial<StyleProfile>> = {};
+  for (const file of fs.readdirSync(dir).sort()) {
+    const extension = path.extname(file).toLowerCase();
+    if (!STYLE_FILE_EXTENSIONS.includes(extension)) {
+      continue;
+    }
+    const name = path.basename(file, path.extname(file));
+    const filePath = path.join(dir, file);
+    if (profiles[name]) {
+      throw new ConfigError(
+        `Style profile "${name}" is defined twice in ${dir}`
+      );
+    }
+
+    let data: unknown;
+    try {
+      const text = fs.readFileSync(filePath, "utf-8");
+      data = extension === ".json" ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new ConfigError(
+        `Could not parse ${filePath}: ${(error as Error).message}`
+      );
+    }
+    profiles[name] = definedOnly(
+      parseConfig(styleFileSchema, data ?? {}, `style.${name}`)
+    ) as Partial<StyleProfile>;
+  }
+  return profiles;
+}
+
+export type StyleProfileSelection = ProfileSelection<StyleProfile>;
+
+/**
+ * Resolves the style profile for one run.
+ *
+ * Precedence (lowest first): the built-in default profile, the selected
+ * profile file (the selection, else the "scripting.styleProfile" setting
+ * or STYLE_PROFILE), per-run overrides such as targetSeconds. Throws a
+ * ConfigError for an unknown profile or an invalid profile file.
+ */
+export function resolveStyleProfile(
+  selection: StyleProfileSelection = {}
+): StyleProfile {
+  const config = resolveScriptingConfig();
+  const profiles = loadStyleProfiles(config.styleDir);
+  const name = selection.profile ?? config.styleProfile;
+
+  const profile =
+    profiles[name] ?? (name === DEFAULT_STYLE_PROFILE_NAME ? {} : undefined);
+  if (!profile) {
+    const known = [
+      DEFAULT_STYLE_PROFILE_NAME,
+      ...Object.keys(profiles).filter(
+        (profileName) => profileName !== DEFAULT_STYLE_PROFILE_NAME
+      ),
+    ].join(", ");
+    throw new ConfigError(
+      `Unknown style profile "${name}" (available: ${known})`
+    );
+  }
+
+  return parseConfig(
+    styleProfileSchema,
+    {
+      ...DEFAULT_STYLE_PROFILE,
+      ...profile,
+      ...definedOnly((selection.overrides ?? {}) as Record<string, unknown>),
+    },
+    `style.${name}`
+  );
+}
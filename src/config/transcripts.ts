@@ -0,0 +1,70 @@
+// src/config/transcripts.ts
+import { z } from "zod";
+import { definedOnly, parseConfig, readConfigFile } from "./file.js";
+
+// "apify": fetch through an Apify actor, cached on disk
+// "file": only read transcripts already in the cache directory
+// "none": skip transcripts entirely
+export const TRANSCRIPT_PROVIDERS = ["apify", "file", "none"] as const;
+
+export const transcriptConfigSchema = z.object({
+  provider: z.enum(TRANSCRIPT_PROVIDERS),
+  // One <videoId>.json per transcript
+  cacheDir: z.string().min(1),
+  // How many of the top videos to transcribe
+  maxVideos: z.number().int().min(1).max(10),
+  apifyActorId: z.string().min(1),
+});
+
+export type TranscriptConfig = z.infer<typeof transcriptConfigSchema>;
+
+export const DEFAULT_TRANSCRIPT_CONFIG: TranscriptConfig = {
+  provider: "apify",
+  cacheDir: ".cache/transcripts",
+  maxVideos: 3,
+  apifyActorId: "pintostudio~youtube-transcript-scraper",
+};
+
+const transcriptEnvSchema = z.object({
+  TRANSCRIPT_PROVIDER: z.string().optional(),
+  TRANSCRIPT_CACHE_DIR: z.string().optional(),
+});
+
+function readTranscriptEnv(): Partial<TranscriptConfig> {
+  const env = parseConfig(
+    transcriptEnvSchema,
+    definedOnly({
+      TRANSCRIPT_PROVIDER: process.env.TRANSCRIPT_PROVIDER,
+      TRANSCRIPT_CACHE_DIR: process.env.TRANSCRIPT_CACHE_DIR,
+    }),
+    "env"
+  );
+  return definedOnly({
+    provider: env.TRANSCRIPT_PROVIDER,
+    cacheDir: env.TRANSCRIPT_CACHE_DIR,
+  }) as Partial<TranscriptConfig>;
+}
+
+/**
+ * Resolves the transcript provider settings.
+ *
+ * Precedence (lowest first): built-in defaults, config file "transcripts"
+ * section, TRANSCRIPT_* env vars. Throws a ConfigError if invalid.
+ */
+export function resolveTranscriptConfig(): TranscriptConfig {
+  const fileSettings = parseConfig(
+    transcriptConfigSchema.partial(),
+    readConfigFile().transcripts ?? {},
+    "transcripts"
+  );
+
+  return parseConfig(
+    transcriptConfigSchema,
+    {
+      ...DEFAULT_TRANSCRIPT_CONFIG,
+      ...definedOnly(fileSettings),
+      ...readTranscriptEnv(),
+    },
+    "transcripts"
+  );
+}
@@ -0,0 +1,136 @@
+// src/config/video.ts
+import { z } from "zod";
+import { definedOnly, parseConfig, resolveProfiledSection } from "./file.js";
+import type { ProfileSelection } from "./file.js";
+
+export const ASPECT_RATIOS = ["9:16", "1:1", "16:9"] as const;
+export const RESOLUTIONS = ["720p", "1080p"] as const;
+export const AVATAR_STYLES = ["normal", "circle", "closeUp"] as const;
+
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+export type Resolution = (typeof RESOLUTIONS)[number];
+
+const backgroundSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("color"),
+    value: z
+      .string()
+      .regex(/^#[0-9a-fA-F]{6}$/, "must be a hex color like #FFFFFF"),
+  }),
+  z.object({
+    type: z.literal("image"),
+    url: z.url(),
+  }),
+  z.object({
+    type: z.literal("video"),
+    url: z.url(),
+    playStyle: z
+      .enum(["fit_to_scene", "freeze", "loop", "once"])
+      .default("loop"),
+  }),
+]);
+
+export type VideoBackground = z.infer<typeof backgroundSchema>;
+
+export const videoConfigSchema = z.object({
+  avatarId: z.string().min(1),
+  avatarStyle: z.enum(AVATAR_STYLES),
+  background: backgroundSchema,
+  aspectRatio: z.enum(ASPECT_RATIOS),
+  resolution: z.enum(RESOLUTIONS),
+  // HeyGen test mode: watermarked renders that do not use credits
+  test: z.boolean(),
+});
+
+export type VideoConfig = z.infer<typeof videoConfigSchema>;
+export type VideoOverrides = {
+  [K in keyof VideoConfig]?: VideoConfig[K] | undefined;
+};
+
+export const DEFAULT_VIDEO_CONFIG: VideoConfig = {
+  avatarId: "109cdee34a164003b0e847ffce93828e", // Jasmine
+  avatarStyle: "normal",
+  background: { type: "color", value: "#FFFFFF" },
+  aspectRatio: "9:16",
+  resolution: "720p",
+  test: false,
+};
+
+// Short side in pixels for each resolution
+const SHORT_SIDE: Record<Resolution, number> = {
+  "720p": 720,
+  "1080p": 1080,
+};
+
+/**
+ * HeyGen `dimension` for an aspect ratio and resolution,
+ * e.g. 9:16 at 720p → 720x1280.
+ */
+export function getVideoDimensions(
+  aspectRatio: AspectRatio,
+  resolution: Resolution
+): { width: number; height: number } {
+  const short = SHORT_SIDE[resolution];
+  const long = Math.round((short * 16) / 9);
+  switch (aspectRatio) {
+    case "9:16":
+      return { width: short, height: long };
+    case "16:9":
+      return { width: long, height: short };
+    case "1:1":
+      return { width: short, height: short };
+  }
+}
+
+const videoEnvSchema = z.object({
+  HEYGEN_AVATAR_ID: z.string().optional(),
+  HEYGEN_AVATAR_STYLE: z.string().optional(),
+  HEYGEN_ASPECT_RATIO: z.string().optional(),
+  HEYGEN_RESOLUTION: z.string().optional(),
+  HEYGEN_TEST_MODE: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+function readVideoEnv(): VideoOverrides {
+  const env = parseConfig(
+    videoEnvSchema,
+    definedOnly({
+      HEYGEN_AVATAR_ID: process.env.HEYGEN_AVATAR_ID,
+      HEYGEN_AVATAR_STYLE: process.env.HEYGEN_AVATAR_STYLE,
+      HEYGEN_ASPECT_RATIO: process.env.HEYGEN_ASPECT_RATIO,
+      HEYGEN_RESOLUTION: process.env.HEYGEN_RESOLUTION,
+      HEYGEN_TEST_MODE: process.env.HEYGEN_TEST_MODE,
+    }),
+    "env"
+  );
+  return definedOnly({
+    avatarId: env.HEYGEN_AVATAR_ID,
+    avatarStyle: env.HEYGEN_AVATAR_STYLE,
+    aspectRatio: env.HEYGEN_ASPECT_RATIO,
+    resolution: env.HEYGEN_RESOLUTION,
+    test: env.HEYGEN_TEST_MODE,
+  }) as VideoOverrides;
+}
+
+export type VideoConfigSelection = ProfileSelection<VideoConfig>;
+
+/**
+ * Resolves the HeyGen video profile for one run.
+ *
+ * Precedence (lowest first): built-in defaults, config file "video" section,
+ * HEYGEN_* env vars, the selected profile, per-run overrides.
+ * Throws a ConfigError if the merged result is invalid.
+ */
+export function resolveVideoConfig(
+  selection: VideoConfigSelection = {}
+): VideoConfig {
+  return resolveProfiledSection(
+    "video",
+    videoConfigSchema,
+    DEFAULT_VIDEO_CONFIG,
+    readVideoEnv() as Partial<VideoConfig>,
+    selection
+  );
+}
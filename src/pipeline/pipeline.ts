@@ -0,0 +1,237 @@
+// src/pipeline/pipeline.ts
+import type { AgentState } from "../state/state.js";
+import {
+  getRunDir,
+  markStageComplete,
+  saveCheckpoint,
+} from "../state/store.js";
+import type { RunCheckpoint, StageResult } from "../state/store.js";
+
+/**
+ * Per-run settings and services handed to every stage.
+ */
+export interface PipelineContext {
+  runId: string;
+  // Folder for this run's artifacts (state.json, downloaded video, ...)
+  runDir: string;
+  // Base directory passed to the run store
+  runsDir: string;
+  autoApprove: boolean;
+  // Ignore cached research results (--refresh-research)
+  refreshResearch: boolean;
+  // Persist the current state mid-stage (e.g. after HeyGen returns a job id)
+  checkpoint: () => void;
+}
+
+/**
+ * Builds the context for running `checkpoint` inside `runsDir`.
+ */
+export function createPipelineContext(
+  checkpoint: RunCheckpoint,
+  runsDir: string,
+  autoApprove: boolean,
+  refreshResearch = false
+): PipelineContext {
+  return {
+    runId: checkpoint.runId,
+    runDir: getRunDir(checkpoint.runId, runsDir),
+    runsDir,
+    autoApprove,
+    refreshResearch,
+    checkpoint: () => saveCheckpoint(checkpoint, runsDir),
+  };
+}
+
+/**
+ * AgentState with the stage's declared inputs guaranteed to be present.
+ */
+export type StageInput<I extends keyof AgentState> = AgentState & {
+  [K in I]-?: NonNullable<AgentState[K]>;
+};
+
+/**
+ * A single step of the pipeline.
+ *
+ * The engine checks `inputs` before running, merges the returned outputs
+ * into AgentState and checkpoints the run afterwards.
+ */
+export interface PipelineStage<
+  I extends keyof AgentState = keyof AgentState,
+  O extends keyof AgentState = keyof AgentState
+> {
+  name: string;
+  description: string;
+  inputs: readonly I[];
+  outputs: readonly O[];
+  // Return a reason to skip the stage for this run, or undefined to run it
+  precondition?(state: AgentState, context: PipelineContext): string | undefined;
+  run(
+    state: StageInput<I>,
+    context: PipelineContext
+  ): Promise<Pick<AgentState, O>>;
+}
+
+/**
+ * A stage as the engine sees it, so stages with different inputs and
+ * outputs fit in one list. The engine enforces `inputs` at runtime.
+ */
+export interface RegisteredStage {
+  name: string;
+  description: string;
+  inputs: readonly (keyof AgentState)[];
+  outputs: readonly (keyof AgentState)[];
+  precondition?(state: AgentState, context: PipelineContext): string | undefined;
+  run(
+    state: AgentState,
+    context: PipelineContext
+  ): Promise<Partial<AgentState>>;
+}
+
+/**
+ * Checks a stage against its declared input/output key unions and
+ * registers it for the engine. `run` is a method, so a stage that needs
+ * StageInput<I> still fits RegisteredStage.
+ */
+export function defineStage<
+  I extends keyof AgentState,
+  O extends keyof AgentState
+>(stage: PipelineStage<I, O>): RegisteredStage {
+  return stage;
+}
+
+/**
+ * Raised when a stage cannot start or fails while running.
+ */
+export class StageError extends Error {
+  readonly stage: string;
+  readonly cause?: unknown;
+
+  constructor(stage: string, message: string, cause?: unknown) {
+    super(`Stage "${stage}" failed: ${message}`);
+    this.name = "StageError";
+    this.stage = stage;
+    this.cause = cause;
+  }
+}
+
+/**
+ * First stage (in pipeline order) that has not completed yet, or undefined
+ * when the run is finished.
+ */
+export function firstIncompleteStage(
+  stages: readonly RegisteredStage[],
+  checkpoint: RunCheckpoint
+): string | undefined {
+  return stages.find((s) => !checkpoint.completedStages.includes(s.name))
+    ?.name;
+}
+
+/**
+ * Forgets `fromStage` and every stage after it, including their outputs,
+ * so the next pipeline run executes them again.
+ */
+export function resetStages(
+  stages: readonly RegisteredStage[],
+  checkpoint: RunCheckpoint,
+  fromStage: string
+): void {
+  const from = stages.findIndex((s) => s.name === fromStage);
+  if (from === -1) {
+    throw new Error(`Unknown stage "${fromStage}"`);
+  }
+
+  for (const stage of stages.slice(from)) {
+    checkpoint.completedStages = checkpoint.completedStages.filter(
+      (name) => name !== stage.name
+    );
+    delete checkpoint.stageResults[stage.name];
+    for (const key of stage.outputs) {
+      delete (checkpoint.state as Partial<AgentState>)[key];
+    }
+  }
+}
+
+function missingInputs(
+  stage: RegisteredStage,
+  state: AgentState
+): (keyof AgentState)[] {
+  return stage.inputs.filter(
+    (key) => state[key] === undefined || state[key] === null
+  );
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Runs `stages` in order against the checkpointed state.
+ *
+ * Completed stages are skipped, so calling this again on a loaded
+ * checkpoint resumes from the first incomplete stage.
+ * Throws a StageError on the first failure, after saving the checkpoint.
+ */
+export async function runPipeline(
+  stages: readonly RegisteredStage[],
+  checkpoint: RunCheckpoint,
+  context: PipelineContext
+): Promise<AgentState> {
+  const { state } = checkpoint;
+
+  for (const stage of stages) {
+    if (checkpoint.completedStages.includes(stage.name)) {
+      console.log(`⏭️  Skipping "${stage.name}" (already completed)`);
+      continue;
+    }
+
+    const startedAt = new Date();
+    const record = (result: Omit<StageResult, "startedAt" | "durationMs">) => {
+      checkpoint.stageResults[stage.name] = {
+        ...result,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+      };
+    };
+
+    const skipReason = stage.precondition?.(state, context);
+    if (skipReason) {
+      console.log(`⏭️  Skipping "${stage.name}": ${skipReason}`);
+      record({ status: "skipped", detail: skipReason });
+      saveCheckpoint(checkpoint, context.runsDir);
+      continue;
+    }
+
+    const missing = missingInputs(stage, state);
+    if (missing.length > 0) {
+      const error = new StageError(
+        stage.name,
+        `missing input(s): ${missing.join(", ")}`
+      );
+      record({ status: "failed", detail: error.message });
+      saveCheckpoint(checkpoint, context.runsDir);
+      throw error;
+    }
+
+    console.log(`\n▶️  [${stage.name}] ${stage.description}`);
+
+    try {
+      const outputs = await stage.run(state, context);
+      Object.assign(state, outputs);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      record({ status: "failed", detail: message });
+      saveCheckpoint(checkpoint, context.runsDir);
+      throw new StageError(stage.name, message, error);
+    }
+
+    record({ status: "completed" });
+    markStageComplete(checkpoint, stage.name, context.runsDir);
+    console.log(
+      `✔️  [${stage.name}] done in ${formatDuration(
+        checkpoint.stageResults[stage.name]!.durationMs
+      )}`
+    );
+  }
+
+  return state;
+}
@@ -0,0 +1,262 @@
+// src/pipeline/stages.ts
+import { runResearchStage } from "../agents/research.js";
+import {
+  runScriptingStage,
+  runScriptVariantsStage,
+} from "../agents/scripting.js";
+import { runCitationStage } from "../agents/citations.js";
+import { runHumanReviewNode } from "../agents/human_review.js";
+import {
+  formatFactCheckFeedback,
+  runFactCheck,
+} from "../scripting/fact_check.js";
+import { findRepeat, selectCoveredVideos } from "../scripting/repeats.js";
+import { formatStyleFeedback, lintScript } from "../scripting/style.js";
+import {
+  buildHistoryEntry,
+  loadHistory,
+  recordVideo,
+} from "../state/history.js";
+import { runAudioStage } from "../agents/audio.js";
+import { runVideoGenerationStage } from "../agents/video_generation.js";
+import { resolveAudioConfig } from "../config/audio.js";
+import { resolveResearchConfig } from "../config/research.js";
+import { resolveScriptingConfig } from "../config/scripting.js";
+import { resolveStyleProfile } from "../config/style.js";
+import { resolveVideoConfig } from "../config/video.js";
+import { defineStage } from "./pipeline.js";
+import type { RegisteredStage } from "./pipeline.js";
+
+export const researchStage = defineStage({
+  name: "research",
+  description: "Collect YouTube, news and Twitter research",
+  inputs: ["topic"],
+  outputs: ["researchData"],
+  async run(state, context) {
+    const researchData = await runResearchStage(state.topic, {
+      sources: state.settings?.researchSources,
+      settings: resolveResearchConfig({
+        profile: state.settings?.researchProfile,
+        overrides: state.settings?.research,
+      }),
+      refresh: context.refreshResearch,
+    });
+    console.log("📊 Research Data collected.");
+    return { researchData };
+  },
+});
+
+export const scriptingStage = defineStage({
+  name: "scripting",
+  description:
+    "Write the script (or variants), fact-check and lint it, trace its claims and loop through human review",
+  inputs: ["topic", "researchData"],
+  outputs: [
+    "script",
+    "variants",
+    "factCheck",
+    "styleViolations",
+    "repeatOf",
+    "citations",
+    "feedback",
+  ],
+  async run(state, context) {
+    const config = resolveScriptingConfig();
+    const style = resolveStyleProfile({
+      profile: state.settings?.styleProfile,
+      overrides: { targetSeconds: state.settings?.targetSeconds },
+    });
+    // Earlier runs of this topic (e.g. a redone scripting stage) do not count
+    const history = loadHistory(context.runsDir).filter(
+      (entry) => entry.runId !== context.runId
+    );
+    const coveredVideos = selectCoveredVideos(state.topic, history);
+    const options = { coveredVideos, style };
+    // Reviewer feedback is kept when a rewrite adds fact-check or style
+    // feedback
+    let reviewFeedback = state.feedback;
+    let factRetries = 0;
+    let styleRetries = 0;
+
+    const checkFacts = (script: string) =>
+      config.factCheck !== "off" && state.researchData
+        ? runFactCheck(script, state.researchData, style)
+        : undefined;
+    const checkStyle = (script: string) =>
+      config.styleLint !== "off"
+        ? lintScript(script, style)
+        : undefined;
+    // Citations help the reviewer but must not block the run
+    const traceCitations = (script: string) =>
+      runCitationStage(script, state.researchData).catch((error) => {
+        console.warn(
+          `⚠️ Could not trace script claims: ${(error as Error).message}`
+        );
+        return undefined;
+      });
+
+    while (true) {
+      // The best-scoring variant goes through the checks below
+      const variants =
+        config.variants > 1
+          ? await runScriptVariantsStage(state, config.variants, options)
+          : undefined;
+      const script =
+        variants?.[0]?.script ?? (await runScriptingStage(state, options));
+      state.script = script;
+      state.variants = variants;
+
+      let factCheck = checkFacts(script);
+      state.factCheck = factCheck;
+      let styleViolations = checkStyle(script);
+      state.styleViolations = styleViolations;
+
+      // Each check rewrites the script a bounded number of times
+      const factFeedback =
+        factCheck?.unsupported &&
+        config.factCheck === "regenerate" &&
+        factRetries < config.factCheckRetries
+          ? formatFactCheckFeedback(factCheck)
+          : undefined;
+      const styleFeedback =
+        styleViolations?.length &&
+        config.styleLint === "regenerate" &&
+        styleRetries < config.styleLintRetries
+          ? formatStyleFeedback(styleViolations)
+          : undefined;
+
+      if (factFeedback || styleFeedback) {
+        if (factFeedback) {
+          factRetries++;
+          console.log(
+            `🔎 Fact check: ${factCheck?.unsupported} unsupported claim(s), rewriting (${factRetries}/${config.factCheckRetries})`
+          );
+        }
+        if (styleFeedback) {
+          styleRetries++;
+          console.log(
+            `✏️ Style check: ${styleViolations?.length} broken rule(s), rewriting (${styleRetries}/${config.styleLintRetries})`
+          );
+        }
+        state.feedback = [reviewFeedback, factFeedback, styleFeedback]
+          .filter(Boolean)
+          .join("\n");
+        continue;
+      }
+
+      let repeatOf = findRepeat(script, history, config.repeatThreshold);
+      state.repeatOf = repeatOf;
+
+      let citations = await traceCitations(script);
+      state.citations = citations;
+
+      // Run Review
+      const reviewResult = await runHumanReviewNode(script, {
+        autoApprove: context.autoApprove,
+        citations,
+        factCheck,
+        styleViolations,
+        repeatOf,
+        variants,
+      });
+
+      if (reviewResult.approved) {
+        console.log("✅ Script Approved!");
+        // Another variant or a merge was approved; check that one instead
+        const approved = reviewResult.script ?? script;
+        if (approved !== script) {
+          factCheck = checkFacts(approved);
+          styleViolations = checkStyle(approved);
+          repeatOf = findRepeat(approved, history, config.repeatThreshold);
+          citations = await traceCitations(approved);
+        }
+        return {
+          script: approved,
+          variants,
+          factCheck,
+          styleViolations,
+          repeatOf,
+          citations,
+          feedback: undefined,
+        };
+      }
+
+      console.log("🔄 Feedback received:", reviewResult.feedback);
+      state.feedback = reviewResult.feedback;
+      reviewFeedback = reviewResult.feedback;
+      factRetries = 0;
+      styleRetries = 0;
+    }
+  },
+});
+
+export const audioStage = defineStage({
+  name: "audio",
+  description: "Generate the voiceover with ElevenLabs",
+  inputs: ["script"],
+  outputs: ["audioUrl"],
+  async run(state) {
+    const audioConfig = resolveAudioConfig({
+      profile: state.settings?.audioProfile,
+      overrides: state.settings?.audio,
+    });
+    const audioUrl = await runAudioStage(state.script, audioConfig);
+    console.log("🎧 Audio generated:", audioUrl);
+    return { audioUrl };
+  },
+});
+
+export const videoStage = defineStage({
+  name: "video",
+  description: "Render and download the HeyGen avatar video",
+  inputs: ["audioUrl"],
+  outputs: ["heygenVideoId", "videoUrl", "videoPath"],
+  async run(state, context) {
+    const { videoUrl, savedPath } = await runVideoGenerationStage(
+      state.audioUrl,
+      {
+        outputDir: context.runDir,
+        config: resolveVideoConfig({
+          profile: state.settings?.videoProfile,
+          overrides: state.settings?.video,
+        }),
+        videoId: state.heygenVideoId,
+        onVideoStarted: (videoId) => {
+          state.heygenVideoId = videoId;
+          context.checkpoint();
+        },
+        // Keep the id only for timeouts, so resume renders a new video
+        onVideoFailed: () => {
+          state.heygenVideoId = undefined;
+          context.checkpoint();
+        },
+      }
+    );
+    return {
+      heygenVideoId: state.heygenVideoId,
+      videoUrl,
+      videoPath: savedPath,
+    };
+  },
+});
+
+export const historyStage = defineStage({
+  name: "history",
+  description: "Record the video so later scripts avoid repeating it",
+  inputs: ["topic", "script", "videoUrl"],
+  outputs: [],
+  async run(state, context) {
+    recordVideo(buildHistoryEntry(context.runId, state), context.runsDir);
+    console.log("🗂️ Video recorded in history.");
+    return {};
+  },
+});
+
+// research → scripting loop → audio → video → history
+export const DEFAULT_STAGES: readonly RegisteredStage[] = [
+  researchStage,
+  scriptingStage,
+  audioStage,
+  videoStage,
+  historyStage,
+];
@@ -0,0 +1,128 @@
+// src/research/cache.ts
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import type { SourceOutcome } from "./source.js";
+
+export interface ResearchCacheKey {
+  topic: string;
+  source: string;
+  // Start of the source's date window, if it has one
+  since?: string | undefined;
+  // Source settings the results depend on, e.g. engagement thresholds
+  params?: Record<string, unknown> | undefined;
+}
+
+export interface CachedOutcome {
+  cachedAt: string;
+  outcome: SourceOutcome<unknown>;
+}
+
+export interface ResearchCache {
+  get(key: ResearchCacheKey): CachedOutcome | undefined;
+  set(key: ResearchCacheKey, outcome: SourceOutcome<unknown>): void;
+}
+
+const cacheEntrySchema = z.object({
+  key: z.object({
+    topic: z.string(),
+    source: z.string(),
+    since: z.string().optional(),
+    params: z.record(z.string(), z.unknown()).optional(),
+  }),
+  cachedAt: z.string(),
+  items: z.array(z.unknown()),
+  summary: z.string().optional(),
+  warnings: z.array(z.string()).optional(),
+});
+
+// "  Claude  Code " and "claude code" share an entry
+export function normalizeTopic(topic: string): string {
+  return topic.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function getEntryPath(dir: string, key: ResearchCacheKey): string {
+  const hash = createHash("sha256")
+    .update(
+      JSON.stringify([normalizeTopic(key.topic), key.since ?? "", key.params])
+    )
+    .digest("hex")
+    .slice(0, 16);
+  return path.join(
+    dir,
+    key.source.replace(/[^A-Za-z0-9_-]/g, "_"),
+    `${hash}.json`
+  );
+}
+
+/**
+ * Stores source results as <dir>/<source>/<hash>.json. Entries older than
+ * `ttlMs`, unreadable or written for another key count as misses.
+ */
+export function createResearchCache(
+  dir: string,
+  ttlMs: number,
+  now: () => number = Date.now
+): ResearchCache {
+  return {
+    get(key) {
+      const filePath = getEntryPath(dir, key);
+      if (!fs.existsSync(filePath)) {
+        return undefined;
+      }
+      try {
+        const parsed = cacheEntrySchema.safeParse(
+          JSON.parse(fs.readFileSync(filePath, "utf-8"))
+        );
+        if (!parsed.success) {
+          return undefined;
+        }
+        const entry = parsed.data;
+        const age = now() - Date.parse(entry.cachedAt);
+        if (
+          entry.key.topic !== normalizeTopic(key.topic) ||
+          entry.key.since !== key.since ||
+          JSON.stringify(entry.key.params) !== JSON.stringify(key.params) ||
+          !(age >= 0 && age < ttlMs)
+        ) {
+          return undefined;
+        }
+        return {
+          cachedAt: entry.cachedAt,
+          outcome: {
+            items: entry.items,
+            ...(entry.summary && { summary: entry.summary }),
+            ...(entry.warnings && { warnings: entry.warnings }),
+          },
+        };
+      } catch {
+        return undefined;
+      }
+    },
+
+    set(key, outcome) {
+      const filePath = getEntryPath(dir, key);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify(
+          {
+            key: {
+              topic: normalizeTopic(key.topic),
+              source: key.source,
+              ...(key.since && { since: key.since }),
+              ...(key.params && { params: key.params }),
+            },
+            cachedAt: new Date(now()).toISOString(),
+            items: outcome.items,
+            ...(outcome.summary && { summary: outcome.summary }),
+            ...(outcome.warnings?.length && { warnings: outcome.warnings }),
+          },
+          null,
+          2
+        )
+      );
+    },
+  };
+}
@@ -0,0 +1,114 @@
+// src/research/exa.ts
+import { Agent, run } from "@openai/agents";
+import type { NewsItem } from "../state/state.js";
+import { newsItemSchema, parseItems } from "../agents/research_output.js";
+import { getToolCallOutputs } from "../agents/tool_outputs.js";
+import { planExaQuery } from "./queries.js";
+import { toolRouterTool } from "./source.js";
+import type { ResearchSource } from "./source.js";
+
+function walkForResults(value: unknown, found: Record<string, unknown>[]) {
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (text.startsWith("{") || text.startsWith("[")) {
+      // MCP results wrap the search response in a text field
+      try {
+        walkForResults(JSON.parse(text), found);
+      } catch {
+        // Not JSON; nothing to collect
+      }
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((entry) => walkForResults(entry, found));
+    return;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record.url === "string" && "title" in record) {
+      found.push(record);
+      return;
+    }
+    Object.values(record).forEach((entry) => walkForResults(entry, found));
+  }
+}
+
+/**
+ * Pulls the search results (objects with a url and title) out of the raw
+ * EXA_SEARCH tool outputs, first occurrence of each URL only.
+ */
+export function extractSearchResults(outputs: string[]): unknown[] {
+  const found: Record<string, unknown>[] = [];
+  outputs.forEach((output) => walkForResults(output, found));
+  const seen = new Set<unknown>();
+  return found.filter((result) => {
+    if (seen.has(result.url)) {
+      return false;
+    }
+    seen.add(result.url);
+    return true;
+  });
+}
+
+/**
+ * Exa trends: fresh news from the lookback window. Articles come from the
+ * EXA_SEARCH results themselves; the agent only writes the summary.
+ */
+export const exaSource: ResearchSource<NewsItem> = {
+  name: "exa",
+  label: "Exa news",
+  toolkit: "exa",
+  authConfigEnv: "EXA_AUTH_CONFIG_ID",
+  timeoutMs: 90_000,
+  lookbackDays: (settings) => settings.exaLookbackDays,
+  planQuery: (topic) => planExaQuery(topic),
+
+  async fetch(topic, context) {
+    const dateStr = context.since;
+
+    const trendAgent = new Agent({
+      name: "Trend Researcher",
+      instructions: `
+      You are a trend researcher. Your ONLY job is to search for news about a SPECIFIC topic.
+
+      THE TOPIC IS: "${topic}"
+
+      You MUST call EXA_SEARCH with these EXACT parameters:
+      - query: "${context.query}" (DO NOT change this - use this exact string)
+      - numResults: 5
+      - type: "neural"
+      - category: "news"
+      - startPublishedDate: "${dateStr}"
+
+      DO NOT search for generic "AI news" or "latest developments".
+      ONLY search for: "${context.query}"
+
+      After receiving results, summarize the top 3 most relevant articles about "${topic}".
+    `,
+      tools: [toolRouterTool(context)],
+      model: "gpt-4o",
+    });
+
+    console.log(
+      `📰 Finding trends (last ${context.settings.exaLookbackDays} days)...`
+    );
+    const trendResult = await run(trendAgent, "Find fresh news.", {
+      signal: context.signal,
+    });
+    const trends = trendResult.finalOutput?.trim();
+
+    const news = parseItems(
+      newsItemSchema,
+      extractSearchResults(getToolCallOutputs(trendResult.newItems ?? [])),
+      "Exa Search"
+    );
+    console.log(`✅ News articles: ${news.items.length}`);
+
+    return {
+      items: news.items,
+      ...(trends && { summary: trends }),
+      warnings: news.warnings,
+    };
+  },
+};
@@ -0,0 +1,159 @@
+// src/research/hooks.ts
+import type {
+  HookPatternStats,
+  VideoReference,
+  VideoTranscript,
+} from "../state/state.js";
+
+// "question":   "Is Cursor better than Copilot?"
+// "contrarian": "Stop using ChatGPT like this"
+// "number":     "3 Claude tricks nobody uses"
+// "just-did":   "OpenAI just killed Zapier"
+export const HOOK_PATTERNS = [
+  "question",
+  "contrarian",
+  "number",
+  "just-did",
+] as const;
+
+export type HookPattern = (typeof HOOK_PATTERNS)[number];
+
+// Examples kept per pattern for the scripting prompt
+const MAX_EXAMPLES = 3;
+
+const COUNT = "\\d{1,3}|one|two|three|four|five|six|seven|eight|nine|ten";
+
+// "3 Claude tricks", "Five ways to ..."; at most three digits, so a
+// leading year ("2026 is ...") is not a count
+const LEADING_COUNT = new RegExp(`^(?:${COUNT})\\s+\\p{L}`, "iu");
+
+// "these 3 tools", "Top 5 prompts": a count before a list noun. Numbers
+// glued to a name ("GPT-5 tips") are versions
+const LISTICLE = new RegExp(
+  `(?<![\\p{L}\\p{N}.-])(?:${COUNT})\\s+(?:[\\p{L}'-]+\\s+){0,2}?(?:tricks|tips|ways|tools|things|reasons|mistakes|secrets|hacks|features|prompts|apps|steps|lessons|signs|rules|ideas|facts|examples|myths)\\b`,
+  "giu"
+);
+
+// Capitalised words that introduce a count rather than name a product
+const COUNT_LEADERS = new Set([
+  "top", "these", "the", "my", "our", "best", "all", "only", "just", "why",
+]);
+
+// An actor, "just", then a verb: "OpenAI just killed Zapier"
+const JUST_DID =
+  /(?:^|\s)\p{Lu}[\p{L}\p{N}.+'-]*\s+[Jj]ust\s+([\p{L}-]+)/gu;
+
+// Regular verbs end in -ed (but not -eed: "need", "feed")
+const PAST_TENSE =
+  /^(?:[\p{L}-]{2,}(?<!e)ed|did|made|built|broke|bought|sold|won|lost|took|gave|got|hit|beat|quit|left|went|became|put|cut|set|ran|shut|wrote|spent|paid|sent|found|brought|stole|threw)$/u;
+
+function isCountHook(hook: string): boolean {
+  if (LEADING_COUNT.test(hook)) {
+    return true;
+  }
+  // A count right after a product name is a version ("Gemini 3 features")
+  return [...hook.matchAll(LISTICLE)].some((match) => {
+    const before = /([\p{L}\p{N}.]+)\s+$/u.exec(
+      hook.slice(0, match.index)
+    )?.[1];
+    return (
+      !before ||
+      !/^\p{Lu}/u.test(before) ||
+      COUNT_LEADERS.has(before.toLowerCase())
+    );
+  });
+}
+
+const HOOK_RULES: Record<HookPattern, (hook: string) => boolean> = {
+  // A leading "Do"/"Have" is as often an order ("Do this before you code"),
+  // so those only count with a question mark
+  question: (hook) => /\?|^(?:why|what|who|which|when|where)\b/i.test(hook),
+  contrarian: (hook) =>
+    /\b(?:stop|don'?t|do not|never|wrong|myth|overrated|nobody|no one|isn'?t|is dead|lies?|truth about|mistakes?|quit|actually|not what)\b/i.test(
+      hook
+    ),
+  // Years and versions are everywhere in this niche; only counts are hooks
+  number: isCountHook,
+  "just-did": (hook) =>
+    [...hook.matchAll(JUST_DID)].some((match) =>
+      PAST_TENSE.test(match[1]!.toLowerCase())
+    ),
+};
+
+/**
+ * Every pattern the hook matches; a hook can use several at once
+ * ("Why nobody uses these 3 tools?").
+ */
+export function classifyHook(text: string): HookPattern[] {
+  const hook = text.trim();
+  return HOOK_PATTERNS.filter((pattern) => HOOK_RULES[pattern](hook));
+}
+
+/**
+ * Counts the hook patterns used by the top videos' titles and spoken
+ * hooks, most used first. Patterns nobody used are left out.
+ */
+export function analyzeHooks(
+  videos: VideoReference[],
+  transcripts: VideoTranscript[] = []
+): HookPatternStats[] {
+  const hooks = [
+    ...videos.map((video) => video.title),
+    ...transcripts.map((transcript) => transcript.pacing.hook),
+  ].filter((hook) => hook.trim());
+
+  return HOOK_PATTERNS.map((pattern): HookPatternStats => {
+    const matches = hooks.filter((hook) =>
+      classifyHook(hook).includes(pattern)
+    );
+    return {
+      pattern,
+      count: matches.length,
+      examples: [...new Set(matches)].slice(0, MAX_EXAMPLES),
+    };
+  })
+    .filter((stats) => stats.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Renders the [HOOK PATTERNS] section of the scripting prompt and tells
+ * the writer which pattern to use: `chosen`, or else the most used one.
+ * With `variety` (script variants) and nothing chosen, no single pattern
+ * is named, so each variant can try a different one.
+ */
+export function formatHookPatterns(
+  patterns: HookPatternStats[],
+  chosen?: HookPattern,
+  variety = false
+): string {
+  const counts = patterns.length
+    ? patterns
+        .map(
+          (p) =>
+            `- ${p.pattern} (${p.count}): ${p.examples
+              .map((example) => `"${example}"`)
+              .join(", ")}`
+        )
+        .join("\n    ")
+    : "- No recognisable hook patterns in the top videos.";
+
+  const pattern = chosen ?? patterns[0]?.pattern;
+  let instruction: string;
+  if (variety && !chosen) {
+    instruction =
+      "Try a different pattern in each script; the most used ones are a safe start.";
+  } else if (pattern) {
+    instruction = `Open with a "${pattern}" hook${
+      chosen ? "" : " (the most used pattern above)"
+    }. Use the examples for its shape, not its words.`;
+  } else {
+    instruction = "Pick whichever hook fits the story best.";
+  }
+
+  return `
+    How the top videos open, by pattern (count, examples):
+    ${counts}
+    ${instruction}
+  `;
+}
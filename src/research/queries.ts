@@ -0,0 +1,76 @@
+// src/research/queries.ts
+
+// Words that carry no search signal on their own
+const STOP_WORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "been", "being", "by",
+  "can", "could", "did", "do", "does", "for", "from", "had", "has", "have",
+  "how", "in", "into", "is", "it", "its", "may", "might", "must", "of", "on",
+  "or", "shall", "should", "the", "to", "using", "was", "were", "what",
+  "when", "why", "will", "with", "would",
+]);
+
+const YEAR = /^(?:19|20)\d{2}$/;
+
+// Twitter ANDs every term, so long queries find almost nothing
+const MAX_TWITTER_TERMS = 3;
+
+/**
+ * The meaningful words of a topic in their original casing, e.g.
+ * "Claude code for development in 2026" -> Claude, code, development, 2026.
+ * Punctuation around words is dropped; "C++" and "Node.js" survive.
+ */
+export function extractKeyTerms(topic: string): string[] {
+  return topic
+    .split(/\s+/)
+    .map((word) =>
+      word.replace(/^[^\p{L}\p{N}]+/u, "").replace(/[^\p{L}\p{N}+]+$/u, "")
+    )
+    .filter(
+      (word) =>
+        word.length > 1 &&
+        !STOP_WORDS.has(word.toLowerCase()) &&
+        // Lone numbers other than years are rarely what a topic is about
+        (!/^\d+$/.test(word) || YEAR.test(word))
+    );
+}
+
+/**
+ * YouTube: the key terms, a hashtag made of the first two of them
+ * (#ClaudeCode) and #shorts.
+ */
+export function planYoutubeQuery(topic: string): string {
+  const terms = extractKeyTerms(topic);
+  if (terms.length === 0) {
+    return `${topic.trim()} #shorts`;
+  }
+  const hashtag = terms
+    .filter((term) => !YEAR.test(term))
+    .slice(0, 2)
+    .map((term) => term.replace(/[^\p{L}\p{N}]/gu, ""))
+    .map((term) => term.charAt(0).toUpperCase() + term.slice(1))
+    .join("");
+  return [...terms, hashtag && `#${hashtag}`, "#shorts"]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Twitter: up to three key terms (years are left to the date window) with
+ * operators that drop retweets and non-English posts. Engagement is
+ * filtered in code: recent search has no like-count operator.
+ */
+export function planTwitterQuery(topic: string): string {
+  const terms = extractKeyTerms(topic)
+    .filter((term) => !YEAR.test(term))
+    .slice(0, MAX_TWITTER_TERMS);
+  const keywords = terms.length > 0 ? terms.join(" ") : topic.trim();
+  return `${keywords} -is:retweet lang:en`;
+}
+
+/**
+ * Exa: neural search matches documents that would follow the query, so it
+ * is phrased as the line introducing an article about the whole topic.
+ */
+export function planExaQuery(topic: string): string {
+  return `Here is a recent news article about ${topic.trim()}:`;
+}
@@ -0,0 +1,70 @@
+// src/research/registry.ts
+import { ConfigError } from "../config/file.js";
+import { exaSource } from "./exa.js";
+import type { ResearchSource } from "./source.js";
+import { twitterSource } from "./twitter.js";
+import { youtubeSource } from "./youtube.js";
+
+// Built-in sources have their own ResearchData fields and prompt sections
+export const BUILT_IN_SOURCES: readonly ResearchSource[] = [
+  youtubeSource,
+  exaSource,
+  twitterSource,
+];
+
+const registry = new Map<string, ResearchSource>(
+  BUILT_IN_SOURCES.map((source) => [source.name, source])
+);
+
+/**
+ * Adds a source to the registry. New sources are enabled by default and
+ * their items are stored under ResearchData.sourceItems.
+ */
+export function registerResearchSource<T>(source: ResearchSource<T>): void {
+  if (registry.has(source.name)) {
+    throw new Error(`Research source "${source.name}" is already registered`);
+  }
+  registry.set(source.name, source);
+}
+
+/**
+ * Removes a registered source (mainly for tests).
+ */
+export function unregisterResearchSource(name: string): void {
+  registry.delete(name);
+}
+
+export function getResearchSource(
+  name: string
+): ResearchSource<unknown> | undefined {
+  return registry.get(name);
+}
+
+export function listResearchSources(): ResearchSource<unknown>[] {
+  return [...registry.values()];
+}
+
+/**
+ * Picks the sources for a run: every registered source, or only the named
+ * ones. Throws a ConfigError for unknown or missing names.
+ */
+export function resolveResearchSources(
+  names?: readonly string[]
+): ResearchSource<unknown>[] {
+  if (!names) {
+    return listResearchSources();
+  }
+  if (names.length === 0) {
+    throw new ConfigError("At least one research source must be enabled");
+  }
+
+  const unknown = names.filter((name) => !registry.has(name));
+  if (unknown.length > 0) {
+    throw new ConfigError(
+      `Unknown research source(s): ${unknown.join(", ")}. Expected: ${[
+        ...registry.keys(),
+      ].join(", ")}`
+    );
+  }
+  return [...new Set(names)].map((name) => registry.get(name)!);
+}
@@ -0,0 +1,195 @@
+// src/research/source.ts
+import { hostedMcpTool } from "@openai/agents";
+import { createToolkitSession, COMPOSIO_USER_ID } from "../services/client.js";
+import { DEFAULT_RESEARCH_CONFIG } from "../config/research.js";
+import type { ResearchConfig } from "../config/research.js";
+import type { ResearchSourceStatus } from "../state/state.js";
+import type { ResearchCache } from "./cache.js";
+
+export type ToolkitSession = Awaited<ReturnType<typeof createToolkitSession>>;
+
+export interface SourceContext {
+  // Search query planned for this source; the topic when it plans none
+  query: string;
+  // Aborted when the source runs over its time limit
+  signal: AbortSignal;
+  // Tool router session for `toolkit`; undefined for sources without one
+  session: ToolkitSession | undefined;
+  // YYYY-MM-DD start of the date window, for sources with lookbackDays
+  since: string | undefined;
+  // Windows and thresholds resolved for this run
+  settings: ResearchConfig;
+}
+
+// What a source produced, before it is merged into ResearchData
+export interface SourceOutcome<T> {
+  // An empty list (and no summary) marks the source as "empty"
+  items: T[];
+  // Free-text digest of the items, for sources whose agent writes one
+  summary?: string;
+  warnings?: string[];
+}
+
+/**
+ * A place research comes from. Sources run concurrently, each under its own
+ * time limit, and report ok / empty / failed independently.
+ */
+export interface ResearchSource<T = unknown> {
+  // Key in ResearchData.sources and in --sources
+  readonly name: string;
+  // Heading used in logs and the scripting prompt
+  readonly label: string;
+  // Composio toolkit slug; a session is opened before fetch when set
+  readonly toolkit?: string;
+  // Env var holding the toolkit's auth config id
+  readonly authConfigEnv?: string;
+  readonly timeoutMs: number;
+  // Only look at content from the last N days; part of the cache key
+  lookbackDays?(settings: ResearchConfig): number;
+  // Other settings the results depend on; part of the cache key
+  cacheParams?(settings: ResearchConfig): Record<string, unknown>;
+  // Rewrites the topic into this source's search syntax
+  planQuery?(topic: string, settings: ResearchConfig): string;
+  fetch(topic: string, context: SourceContext): Promise<SourceOutcome<T>>;
+  // Renders items for the scripting prompt; sources without it are only
+  // kept in the research data
+  formatItems?(items: T[]): string;
+}
+
+export interface SourceRun<T> {
+  outcome?: SourceOutcome<T>;
+  status: ResearchSourceStatus;
+  // Set by runResearchSource
+  query?: string;
+}
+
+/**
+ * Runs one task under its time limit. Errors and timeouts are turned into
+ * a "failed" status so the other sources can still finish.
+ */
+export async function runWithTimeout<T>(
+  name: string,
+  timeoutMs: number,
+  task: (signal: AbortSignal) => Promise<SourceOutcome<T>>
+): Promise<SourceRun<T>> {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+  });
+
+  try {
+    const outcome = await Promise.race([task(controller.signal), timeout]);
+    return {
+      outcome,
+      status: {
+        status: outcome.items.length > 0 || outcome.summary ? "ok" : "empty",
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`⚠️ ${name} research failed: ${reason}`);
+    return {
+      status: { status: "failed", reason, durationMs: Date.now() - startedAt },
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * The YYYY-MM-DD date `days` days before now.
+ */
+export function windowStart(days: number, now = Date.now()): string {
+  return new Date(now - days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T")[0]!;
+}
+
+export interface RunSourceOptions {
+  // Replaces the source's own timeoutMs
+  timeoutMs?: number | undefined;
+  settings?: ResearchConfig | undefined;
+  cache?: ResearchCache | undefined;
+  // Skip cached results (fresh results are still stored)
+  refresh?: boolean | undefined;
+}
+
+/**
+ * Serves the source from the cache when possible; otherwise opens its
+ * toolkit session (if any) and fetches its items with the planned query.
+ * The session counts against the source's time limit. Only "ok" results
+ * are cached.
+ */
+export async function runResearchSource<T>(
+  source: ResearchSource<T>,
+  topic: string,
+  options: RunSourceOptions = {}
+): Promise<SourceRun<T>> {
+  const settings = options.settings ?? DEFAULT_RESEARCH_CONFIG;
+  const query = source.planQuery?.(topic, settings) ?? topic;
+  const since = source.lookbackDays
+    ? windowStart(source.lookbackDays(settings))
+    : undefined;
+  const key = {
+    topic,
+    source: source.name,
+    since,
+    params: source.cacheParams?.(settings),
+  };
+
+  if (options.cache && !options.refresh) {
+    const cached = options.cache.get(key);
+    if (cached) {
+      console.log(
+        `💾 Research cache hit: ${source.name} (cached ${cached.cachedAt})`
+      );
+      return {
+        outcome: cached.outcome as SourceOutcome<T>,
+        status: { status: "ok", durationMs: 0, cachedAt: cached.cachedAt },
+        query,
+      };
+    }
+    console.log(`💾 Research cache miss: ${source.name}`);
+  }
+
+  const result = await runWithTimeout(
+    source.name,
+    options.timeoutMs ?? source.timeoutMs,
+    async (signal) => {
+      const session = source.toolkit
+        ? await createToolkitSession(
+            COMPOSIO_USER_ID,
+            [source.toolkit],
+            source.authConfigEnv && process.env[source.authConfigEnv]
+          )
+        : undefined;
+      return source.fetch(topic, { query, signal, session, since, settings });
+    }
+  );
+
+  if (options.cache && result.outcome && result.status.status === "ok") {
+    options.cache.set(key, result.outcome);
+  }
+  return { ...result, query };
+}
+
+/**
+ * The hosted MCP tool for the source's toolkit session.
+ */
+export function toolRouterTool(context: SourceContext) {
+  if (!context.session) {
+    throw new Error("This source has no toolkit session");
+  }
+  return hostedMcpTool({
+    serverLabel: "tool_router",
+    serverUrl: context.session.url,
+    headers: context.session.headers,
+  });
+}
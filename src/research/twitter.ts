@@ -0,0 +1,120 @@
+// src/research/twitter.ts
+import { Agent, run } from "@openai/agents";
+import type { TwitterInsight } from "../state/state.js";
+import {
+  parseItems,
+  twitterInsightSchema,
+  twitterScoutOutputSchema,
+} from "../agents/research_output.js";
+import { planTwitterQuery } from "./queries.js";
+import { toolRouterTool } from "./source.js";
+import type { ResearchSource } from "./source.js";
+
+// Tweets handed to scripting after filtering
+const TOP_TWEETS = 5;
+
+export interface EngagementThresholds {
+  minLikes: number;
+  minComments: number;
+}
+
+/**
+ * Keeps tweets that meet both thresholds, most liked first (replies break
+ * ties), capped at `limit`. Returns how many were below the thresholds.
+ */
+export function filterByEngagement(
+  tweets: TwitterInsight[],
+  { minLikes, minComments }: EngagementThresholds,
+  limit = TOP_TWEETS
+): { items: TwitterInsight[]; belowThreshold: number } {
+  const engaged = tweets.filter(
+    (tweet) => tweet.likes >= minLikes && tweet.comments >= minComments
+  );
+  return {
+    items: [...engaged]
+      .sort((a, b) => b.likes - a.likes || b.comments - a.comments)
+      .slice(0, limit),
+    belowThreshold: tweets.length - engaged.length,
+  };
+}
+
+/**
+ * Twitter discovery: the latest viral threads. The agent only searches;
+ * engagement thresholds are applied to the parsed tweets.
+ */
+export const twitterSource: ResearchSource<TwitterInsight> = {
+  name: "twitter",
+  label: "Twitter",
+  toolkit: "twitter",
+  authConfigEnv: "TWITTER_AUTH_CONFIG_ID",
+  timeoutMs: 120_000,
+  lookbackDays: (settings) => settings.twitterLookbackDays,
+  cacheParams: (settings) => ({
+    maxResults: settings.twitterMaxResults,
+    minLikes: settings.twitterMinLikes,
+    minComments: settings.twitterMinComments,
+  }),
+  planQuery: (topic) => planTwitterQuery(topic),
+
+  async fetch(topic, context) {
+    const twitterSearchQuery = context.query;
+
+    // Start of the search window
+    const twitterDateStr = context.since;
+    const { settings } = context;
+
+    console.log(`🔍 Twitter search query: "${twitterSearchQuery}"`);
+
+    const twitterAgent = new Agent({
+      name: "Twitter Scout",
+      instructions: `
+      You are a Twitter researcher finding VIRAL content.
+      
+      STEP 1 - SEARCH TWITTER:
+      The topic is "${topic}". Search for: "${twitterSearchQuery}"
+      
+      Use the Twitter search tool with these parameters:
+      - query: "${twitterSearchQuery}" (use this EXACT query, do NOT modify it)
+      - max_results: ${settings.twitterMaxResults}
+      - sort_order: "relevancy" (prioritize popular/engaging tweets)
+      
+      STEP 2 - RETURN EVERY RESULT:
+      Skip tweets posted before ${twitterDateStr}. Return all other tweets
+      from the search, even ones with little engagement. Do not filter or
+      rank them by likes; that is done after you answer.
+
+      OUTPUT:
+      Put each tweet in "tweets" with its text, URL
+      (https://twitter.com/user/status/id), likes (like_count), comments
+      (reply_count) and views (null if the API does not report impressions).
+      Report the metrics exactly as the API returned them.
+    `,
+      tools: [toolRouterTool(context)],
+      outputType: twitterScoutOutputSchema,
+      model: "gpt-4o",
+    });
+
+    console.log("🐦 Fetching viral Twitter threads...");
+    const twitterResult = await run(twitterAgent, "Find viral threads.", {
+      signal: context.signal,
+    });
+
+    const twitter = parseItems(
+      twitterInsightSchema,
+      twitterResult.finalOutput?.tweets,
+      "Twitter Scout"
+    );
+    const engaged = filterByEngagement(twitter.items, {
+      minLikes: settings.twitterMinLikes,
+      minComments: settings.twitterMinComments,
+    });
+    if (engaged.belowThreshold > 0) {
+      twitter.warnings.push(
+        `Twitter Scout: ${engaged.belowThreshold} tweet(s) below ${settings.twitterMinLikes}+ likes / ${settings.twitterMinComments}+ comments`
+      );
+    }
+    console.log(`✅ Twitter items: ${engaged.items.length}`);
+
+    return { items: engaged.items, warnings: twitter.warnings };
+  },
+};
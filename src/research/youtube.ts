@@ -0,0 +1,149 @@
+// src/research/youtube.ts
+import { Agent, run } from "@openai/agents";
+import {
+  getActiveConnectionId,
+  getComposioClient,
+} from "../services/client.js";
+import type { VideoReference } from "../state/state.js";
+import {
+  parseItems,
+  videoReferenceSchema,
+  videoStatisticsSchema,
+  youtubeScoutOutputSchema,
+} from "../agents/research_output.js";
+import type {
+  ParsedItems,
+  VideoStatistics,
+} from "../agents/research_output.js";
+import { planYoutubeQuery } from "./queries.js";
+import { toolRouterTool } from "./source.js";
+import type { ResearchSource } from "./source.js";
+
+const YOUTUBE_VIDEOS_URL = "https://www.googleapis.com/youtube/v3/videos";
+
+/**
+ * Looks up views, likes, comments, duration, channel and publish date with
+ * the YouTube Data API videos.list call, through Composio's proxy on the
+ * YouTube connection.
+ */
+export async function fetchVideoStatistics(
+  videoIds: string[],
+  signal: AbortSignal
+): Promise<ParsedItems<VideoStatistics>> {
+  if (videoIds.length === 0) {
+    return { items: [], warnings: [] };
+  }
+
+  const response = await getComposioClient().tools.proxyExecute({
+    connectedAccountId: await getActiveConnectionId(
+      "youtube",
+      process.env.YOUTUBE_AUTH_CONFIG_ID
+    ),
+    method: "GET",
+    endpoint: YOUTUBE_VIDEOS_URL,
+    parameters: [
+      {
+        name: "part",
+        value: "snippet,statistics,contentDetails",
+        in: "query",
+      },
+      { name: "id", value: videoIds.join(","), in: "query" },
+    ],
+  });
+  signal.throwIfAborted();
+
+  if (response.status >= 400) {
+    throw new Error(`videos.list failed with HTTP ${response.status}`);
+  }
+  return parseItems(
+    videoStatisticsSchema,
+    (response.data as { items?: unknown } | undefined)?.items,
+    "YouTube stats"
+  );
+}
+
+/**
+ * Likes plus comments per view, or undefined without the counts.
+ */
+export function engagementRate(video: VideoReference): number | undefined {
+  if (!video.viewCount) {
+    return undefined;
+  }
+  if (video.likeCount === undefined && video.commentCount === undefined) {
+    return undefined;
+  }
+  const interactions = (video.likeCount ?? 0) + (video.commentCount ?? 0);
+  return interactions / video.viewCount;
+}
+
+/**
+ * Highest engagement rate first; videos without one keep their order at
+ * the end.
+ */
+export function rankByEngagement(videos: VideoReference[]): VideoReference[] {
+  return videos
+    .map((video, index) => ({ video, index, rate: engagementRate(video) }))
+    .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1) || a.index - b.index)
+    .map(({ video }) => video);
+}
+
+/**
+ * YouTube discovery: viral shorts about the topic, with their statistics
+ */
+export const youtubeSource: ResearchSource<VideoReference> = {
+  name: "youtube",
+  label: "YouTube",
+  toolkit: "youtube",
+  authConfigEnv: "YOUTUBE_AUTH_CONFIG_ID",
+  timeoutMs: 90_000,
+  planQuery: (topic) => planYoutubeQuery(topic),
+
+  async fetch(topic, context) {
+    const ytAgent = new Agent({
+      name: "YouTube Scout",
+      instructions: `
+      Find viral shorts about "${topic}".
+      Search YouTube for "${context.query}" (use this EXACT query).
+      Set parameters: type='video', duration='short', order='viewCount'.
+
+      OUTPUT:
+      Put each video in "videos" with its title, watch URL, videoId and
+      viewCount (null if the search result does not include it).
+    `,
+      outputType: youtubeScoutOutputSchema,
+      tools: [toolRouterTool(context)],
+      model: "gpt-4o",
+    });
+
+    console.log("📺 Finding viral shorts...");
+    const ytResult = await run(ytAgent, "Find top 5 viral shorts.", {
+      signal: context.signal,
+    });
+
+    const youtube = parseItems(
+      videoReferenceSchema,
+      ytResult.finalOutput?.videos,
+      "YouTube Scout"
+    );
+    console.log(`✅ Found ${youtube.items.length} videos`);
+
+    // The videos are still useful without statistics
+    const stats = await fetchVideoStatistics(
+      youtube.items.map((video) => video.videoId),
+      context.signal
+    ).catch((error): ParsedItems<VideoStatistics> => {
+      context.signal.throwIfAborted();
+      const reason = error instanceof Error ? error.message : String(error);
+      return { items: [], warnings: [`YouTube stats: failed (${reason})`] };
+    });
+    const byId = new Map(stats.items.map((item) => [item.videoId, item]));
+
+    return {
+      items: youtube.items.map((video) => ({
+        ...video,
+        ...byId.get(video.videoId),
+      })),
+      warnings: [...youtube.warnings, ...stats.warnings],
+    };
+  },
+};
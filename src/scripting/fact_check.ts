@@ -0,0 +1,210 @@
+// src/scripting/fact_check.ts
+import { DEFAULT_STYLE_PROFILE } from "../config/style.js";
+import type { StyleProfile } from "../config/style.js";
+import type {
+  FactCheckClaim,
+  FactCheckReport,
+  ResearchData,
+} from "../state/state.js";
+
+const MONTHS =
+  "January|February|March|April|May|June|July|August|September|October|November|December";
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  t: 1e12,
+  trillion: 1e12,
+};
+
+// "$2.5 billion", "40%", "1,200", "15K"; the number must not be part of a
+// word such as "GPT-5" (that is checked as a name)
+const NUMBER_PATTERN =
+  /(?<![\w.-])([$€£])?(\d[\d,]*(?:\.\d+)?)(?:\s?(%|percent\b|k\b|m\b|bn\b|b\b|t\b|thousand\b|million\b|billion\b|trillion\b))?/gi;
+const DATE_PATTERN = new RegExp(
+  `\\b(?:(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?|(?:${MONTHS})\\s+\\d{4})\\b`,
+  "g"
+);
+const YEAR_PATTERN = /\b(?:19|20)\d{2}\b/g;
+// Runs of capitalised words, e.g. "Claude Code", "OpenAI", "GPT-5"
+const NAME_PATTERN = /\b[A-Z][\w'-]*(?:\s+(?:[A-Z][\w'-]*|\d[\w-]*))*/g;
+
+// Capitalised only because they start a sentence or are filler
+const NOT_NAMES = new Set([
+  "a", "an", "and", "but", "here", "how", "i", "if", "in", "it",
+  "just", "now", "so", "that", "the", "then", "this", "these", "they",
+  "what", "when", "while", "why", "with", "you", "your", "yes", "no",
+]);
+
+function toValue(digits: string, unit: string | undefined): number {
+  const base = Number(digits.replace(/,/g, ""));
+  const multiplier = unit ? MULTIPLIERS[unit.toLowerCase()] : undefined;
+  return multiplier ? base * multiplier : base;
+}
+
+function numericValues(text: string): Set<number> {
+  const values = new Set<number>();
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    values.add(toValue(match[2]!, match[3]));
+  }
+  return values;
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[’]/g, "'").replace(/\s+/g, " ");
+
+/**
+ * Pulls checkable claims out of a script: amounts and other numbers,
+ * dates and years, and names of companies, products and people.
+ * `researchText` helps tell sentence-initial words from names.
+ */
+export function extractClaims(
+  script: string,
+  researchText = ""
+): Omit<FactCheckClaim, "supported">[] {
+  const claims: Omit<FactCheckClaim, "supported">[] = [];
+  const seen = new Set<string>();
+  const add = (text: string, kind: FactCheckClaim["kind"]) => {
+    const key = normalize(text);
+    if (!seen.has(key)) {
+      seen.add(key);
+      claims.push({ text, kind });
+    }
+  };
+
+  const dates = [...script.matchAll(DATE_PATTERN)].map((m) => m[0]);
+  dates.forEach((date) => add(date, "date"));
+  for (const match of script.matchAll(YEAR_PATTERN)) {
+    if (!dates.some((date) => date.includes(match[0]))) {
+      add(match[0], "date");
+    }
+  }
+
+  // Dates are already claims; blank them so "March 15" adds no "15" and
+  // "In March 2023 Google" only yields "Google"
+  const withoutDates = script
+    .replace(DATE_PATTERN, ",")
+    .replace(YEAR_PATTERN, ",");
+
+  for (const match of withoutDates.matchAll(NUMBER_PATTERN)) {
+    const [text, currency, digits, unit] = match;
+    const value = toValue(digits!, unit);
+    // Small bare counts ("3 tools") are narration, not facts worth checking
+    if (!currency && !unit && value < 10) {
+      continue;
+    }
+    add(text.trim(), "number");
+  }
+
+  const monthNames = new Set(MONTHS.toLowerCase().split("|"));
+  for (const match of withoutDates.matchAll(NAME_PATTERN)) {
+    const words = match[0].split(/\s+/);
+    // Drop sentence-initial filler such as "The" in "The Claude team"
+    while (words.length > 0 && NOT_NAMES.has(words[0]!.toLowerCase())) {
+      words.shift();
+    }
+    const name = words.join(" ");
+    if (!name || monthNames.has(name.toLowerCase())) {
+      continue;
+    }
+    // A lone capitalised word at the start of a sentence ("Companies ...")
+    // is only a word when it also appears in lowercase; "Nvidia" is a name
+    const sentenceStart = /(?:^|[.!?]\s*)$/.test(
+      withoutDates.slice(0, match.index)
+    );
+    if (
+      sentenceStart &&
+      name === match[0] &&
+      !/^.+[A-Z0-9]/.test(name) &&
+      new RegExp(`\\b${name.toLowerCase()}\\b`).test(
+        `${script}\n${researchText}`
+      )
+    ) {
+      continue;
+    }
+    add(name, "name");
+  }
+
+  return claims;
+}
+
+/**
+ * Everything the script may be based on, as one searchable text.
+ */
+export function buildResearchText(research: ResearchData): string {
+  return [
+    research.trends,
+    ...(research.news ?? []).flatMap((n) => [n.title, n.author ?? ""]),
+    ...(research.twitterInsights ?? []).map((t) => t.text),
+    ...research.videos.map((v) => v.title),
+    research.rawTranscripts,
+    ...Object.values(research.sourceItems ?? {}).map((items) =>
+      JSON.stringify(items)
+    ),
+  ].join("\n");
+}
+
+/**
+ * Checks each claim against the research: numbers by value (so "$2B" matches
+ * "2 billion"), names and dates by case-insensitive text match. The style
+ * profile's call to action is part of every script and is not checked.
+ */
+export function runFactCheck(
+  script: string,
+  research: ResearchData,
+  style: StyleProfile = DEFAULT_STYLE_PROFILE
+): FactCheckReport {
+  const text = buildResearchText(research);
+  const haystack = normalize(text);
+  const values = numericValues(text);
+  const body = script.split(style.callToAction).join(" ");
+
+  const claims = extractClaims(body, text).map((claim): FactCheckClaim => {
+    let supported = haystack.includes(normalize(claim.text));
+    if (!supported && claim.kind === "number") {
+      const [match] = [...claim.text.matchAll(NUMBER_PATTERN)];
+      supported = !!match && values.has(toValue(match[2]!, match[3]));
+    }
+    return { ...claim, supported };
+  });
+
+  return {
+    claims,
+    unsupported: claims.filter((claim) => !claim.supported).length,
+  };
+}
+
+/**
+ * Regeneration feedback listing the claims the research does not support.
+ */
+export function formatFactCheckFeedback(report: FactCheckReport): string {
+  const claims = report.claims
+    .filter((claim) => !claim.supported)
+    .map((claim) => `"${claim.text}"`)
+    .join(", ");
+  return `Fact check failed. These claims do not appear in the research: ${claims}. Remove them or replace them with facts from [CORE FACTS & NEWS].`;
+}
+
+/**
+ * Renders the fact check for human review.
+ */
+export function formatFactCheck(report: FactCheckReport): string {
+  if (report.claims.length === 0) {
+    return "No numbers, dates or names to check.";
+  }
+  if (report.unsupported === 0) {
+    return `All ${report.claims.length} claim(s) appear in the research.`;
+  }
+  return report.claims
+    .filter((claim) => !claim.supported)
+    .map(
+      (claim) =>
+        `⚠️ "${claim.text}" (${claim.kind}) not found in the research`
+    )
+    .join("\n");
+}
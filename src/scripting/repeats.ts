@@ -0,0 +1,108 @@
+// src/scripting/repeats.ts
+import type { VideoHistoryEntry } from "../state/history.js";
+import type { RepeatMatch } from "../state/state.js";
+
+// Past videos listed in the scripting prompt
+const MAX_COVERED_VIDEOS = 5;
+
+// Too common to say anything about what a script covers
+const FILLER_WORDS = new Set([
+  "a", "about", "all", "also", "an", "and", "are", "as", "at", "be", "but",
+  "by", "can", "for", "from", "has", "have", "hit", "how", "if", "in",
+  "into", "is", "it", "its", "just", "more", "not", "now", "of", "on", "or",
+  "so", "that", "the", "their", "they", "this", "to", "was", "what", "when",
+  "which", "who", "will", "with", "you", "your",
+]);
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}$%][\p{L}\p{N}$%.'-]*/gu) ?? [])
+    .map((word) => word.replace(/[.'-]+$/, ""))
+    .filter((word) => word.length > 1 && !FILLER_WORDS.has(word));
+}
+
+function wordCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of contentWords(text)) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Cosine similarity (0-1) of the content words of two scripts. Two takes on
+ * the same story share names, numbers and key words and score high even
+ * when the sentences differ.
+ */
+export function scriptSimilarity(a: string, b: string): number {
+  const countsA = wordCounts(a);
+  const countsB = wordCounts(b);
+  let dot = 0;
+  for (const [word, count] of countsA) {
+    dot += count * (countsB.get(word) ?? 0);
+  }
+  const norm = (counts: Map<string, number>) =>
+    Math.sqrt([...counts.values()].reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(countsA) * norm(countsB);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * The past video whose script is closest to `script`, when its similarity
+ * reaches `threshold`.
+ */
+export function findRepeat(
+  script: string,
+  history: VideoHistoryEntry[],
+  threshold: number
+): RepeatMatch | undefined {
+  let best: RepeatMatch | undefined;
+  for (const entry of history) {
+    const similarity = Number(
+      scriptSimilarity(script, entry.script).toFixed(2)
+    );
+    if (similarity >= threshold && similarity > (best?.similarity ?? -1)) {
+      best = {
+        runId: entry.runId,
+        topic: entry.topic,
+        story: entry.story,
+        similarity,
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Past videos worth steering away from: those whose topic or story shares
+ * words with the new topic, closest and then newest first.
+ */
+export function selectCoveredVideos(
+  topic: string,
+  history: VideoHistoryEntry[],
+  limit = MAX_COVERED_VIDEOS
+): VideoHistoryEntry[] {
+  const topicWords = new Set(contentWords(topic));
+  return history
+    .map((entry, index) => ({
+      entry,
+      index,
+      shared: new Set(
+        contentWords(`${entry.topic} ${entry.story}`).filter((word) =>
+          topicWords.has(word)
+        )
+      ).size,
+    }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared || b.index - a.index)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Renders the [ALREADY COVERED] section of the scripting prompt.
+ */
+export function formatCoveredVideos(entries: VideoHistoryEntry[]): string {
+  return entries
+    .map((e) => `- Story: "${e.story}" | Hook: "${e.hook}"`)
+    .join("\n    ");
+}
@@ -0,0 +1,138 @@
+// src/scripting/style.ts
+import { DEFAULT_STYLE_PROFILE } from "../config/style.js";
+import type { StyleProfile } from "../config/style.js";
+import type { StyleViolation } from "../state/state.js";
+
+// Average speaking pace used to turn seconds into a word budget (~80 words / 30s)
+const WORDS_PER_SECOND = 8 / 3;
+// Words either side of the budget that still count as on target
+const WORD_TOLERANCE = 5;
+
+// The writing rules checked in code, in the order they are reported
+export const STYLE_RULES = [
+  "emoji",
+  "banned-phrase",
+  "length",
+  "call-to-action",
+] as const;
+
+export type StyleRule = (typeof STYLE_RULES)[number];
+
+const EMOJI = /\p{Extended_Pictographic}/gu;
+
+export interface StyleScore {
+  // Share of the style rules met, 0-100
+  score: number;
+  violations: StyleViolation[];
+}
+
+/**
+ * The word count range that reads aloud in about `targetSeconds`.
+ */
+export function targetWordRange(targetSeconds: number): {
+  min: number;
+  max: number;
+} {
+  const target = Math.round(targetSeconds * WORDS_PER_SECOND);
+  return { min: target - WORD_TOLERANCE, max: target + WORD_TOLERANCE };
+}
+
+export const countWords = (text: string) =>
+  text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Splits a script into its sentences, the unit variants are merged by.
+ */
+export function splitScriptLines(script: string): string[] {
+  return script
+    .split(/(?<=[.!?]["')\]]?)\s+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Checks a script against the rules of its style profile: no emojis, none
+ * of the banned phrases, the target length and exactly the call to action
+ * as the closing sentence. Returns one violation per broken rule.
+ */
+export function lintScript(
+  script: string,
+  style: StyleProfile = DEFAULT_STYLE_PROFILE
+): StyleViolation[] {
+  const violations: StyleViolation[] = [];
+
+  const emojis = [...new Set(script.match(EMOJI))];
+  if (emojis.length > 0) {
+    violations.push({
+      rule: "emoji",
+      message: `Contains emojis: ${emojis.join(" ")}`,
+      found: emojis,
+    });
+  }
+
+  const lower = script.toLowerCase();
+  const banned = style.bannedPhrases.filter((phrase) =>
+    lower.includes(phrase.toLowerCase())
+  );
+  if (banned.length > 0) {
+    violations.push({
+      rule: "banned-phrase",
+      message: `Uses banned phrases: ${banned.map((p) => `"${p}"`).join(", ")}`,
+      found: banned,
+    });
+  }
+
+  const words = countWords(script);
+  const { min, max } = targetWordRange(style.targetSeconds);
+  if (words < min || words > max) {
+    violations.push({
+      rule: "length",
+      message: `${words} words (aim for ${min}-${max})`,
+    });
+  }
+
+  // The call to action may be more than one sentence ("Like this? Hit follow!")
+  const ctaLines = splitScriptLines(style.callToAction).length;
+  const ending = splitScriptLines(script).slice(-ctaLines).join(" ");
+  if (ending !== style.callToAction) {
+    violations.push({
+      rule: "call-to-action",
+      message: `Last sentence is not exactly "${style.callToAction}"`,
+      found: [ending],
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Scores a script by the share of style rules it meets.
+ */
+export function scoreScript(
+  script: string,
+  style: StyleProfile = DEFAULT_STYLE_PROFILE
+): StyleScore {
+  const violations = lintScript(script, style);
+  const met = STYLE_RULES.length - violations.length;
+  return {
+    score: Math.round((100 * met) / STYLE_RULES.length),
+    violations,
+  };
+}
+
+/**
+ * Regeneration feedback listing the broken style rules.
+ */
+export function formatStyleFeedback(violations: StyleViolation[]): string {
+  const problems = violations.map((v) => v.message).join("; ");
+  return `Style check failed: ${problems}. Fix these and follow STRICT WRITING RULES and STRUCTURE exactly.`;
+}
+
+/**
+ * Renders the style check for human review.
+ */
+export function formatStyleViolations(violations: StyleViolation[]): string {
+  return violations.length === 0
+    ? "Meets all style rules."
+    : violations.map((v) => `⚠️ ${v.message}`).join("\n");
+}
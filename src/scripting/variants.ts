@@ -0,0 +1,61 @@
+// src/scripting/variants.ts
+import type { ScriptVariant } from "../state/state.js";
+import { formatStyleViolations, splitScriptLines } from "./style.js";
+
+// A line reference in a merge: variant number, dot, line number ("2.3")
+const LINE_REF = /^(\d+)\.(\d+)$/;
+
+/**
+ * Best style score first. Variants with the same score keep the order the
+ * model wrote them in.
+ */
+export function rankVariants(variants: ScriptVariant[]): ScriptVariant[] {
+  return [...variants].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Builds a script from lines of several variants. `refs` lists them in
+ * speaking order, e.g. "2.1, 2.2, 1.3, 1.4". Throws on a malformed or
+ * unknown reference.
+ */
+export function mergeVariantLines(
+  variants: ScriptVariant[],
+  refs: string
+): string {
+  const parts = refs
+    .split(/[\s,]+/)
+    .map((ref) => ref.trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error("List the lines to keep, e.g. 2.1, 1.2");
+  }
+
+  return parts
+    .map((ref) => {
+      const match = LINE_REF.exec(ref);
+      const variant = match && variants[Number(match[1]) - 1];
+      const line =
+        variant && splitScriptLines(variant.script)[Number(match[2]) - 1];
+      if (!line) {
+        throw new Error(`Unknown line "${ref}"`);
+      }
+      return line;
+    })
+    .join(" ");
+}
+
+/**
+ * Renders the variants for review, each line labelled with the reference
+ * used to merge it.
+ */
+export function formatVariants(variants: ScriptVariant[]): string {
+  return variants
+    .map((variant, i) => {
+      const hook = variant.hookPattern ? `, ${variant.hookPattern} hook` : "";
+      const lines = splitScriptLines(variant.script)
+        .map((line, j) => `[${i + 1}.${j + 1}] ${line}`)
+        .join("\n");
+      return `VARIANT ${i + 1} (score ${variant.score}${hook})\nStory: ${variant.story}\n${lines}\n${formatStyleViolations(variant.violations)}`;
+    })
+    .join("\n--------------------------------\n");
+}
@@ -0,0 +1,123 @@
+// src/state/history.ts
+import * as fs from "fs";
+import * as path from "path";
+import type { AgentState, CitedSource } from "./state.js";
+import { DEFAULT_RUNS_DIR } from "./store.js";
+
+// One JSON object per line, next to the run folders
+const HISTORY_FILE = "history.jsonl";
+
+/**
+ * A produced video, kept so later scripts can avoid repeating it.
+ */
+export interface VideoHistoryEntry {
+  runId: string;
+  producedAt: string;
+  topic: string;
+  // The research item the script is mostly about, or its hook
+  story: string;
+  // First sentence of the script
+  hook: string;
+  script: string;
+  // Research items the script's claims were traced to
+  sources: CitedSource[];
+  videoUrl?: string | undefined;
+  videoPath?: string | undefined;
+}
+
+export function getHistoryPath(runsDir = DEFAULT_RUNS_DIR): string {
+  return path.join(runsDir, HISTORY_FILE);
+}
+
+export function firstSentence(script: string): string {
+  return script.trim().split(/(?<=[.!?])\s+/)[0] ?? "";
+}
+
+/**
+ * Builds the history entry for a finished run. The story is the source
+ * cited by the most claims (news first on ties), falling back to the hook.
+ */
+export function buildHistoryEntry(
+  runId: string,
+  state: AgentState,
+  now: Date = new Date()
+): VideoHistoryEntry {
+  const script = state.script ?? "";
+  const hook = firstSentence(script);
+
+  const counts = new Map<string, { source: CitedSource; claims: number }>();
+  for (const citation of state.citations ?? []) {
+    for (const source of citation.sources) {
+      const entry = counts.get(source.id) ?? { source, claims: 0 };
+      entry.claims++;
+      counts.set(source.id, entry);
+    }
+  }
+  const [top] = [...counts.values()].sort(
+    (a, b) =>
+      b.claims - a.claims ||
+      Number(b.source.type === "news") - Number(a.source.type === "news")
+  );
+
+  return {
+    runId,
+    producedAt: now.toISOString(),
+    topic: state.topic,
+    story: top?.source.title ?? hook,
+    hook,
+    script,
+    sources: [...counts.values()].map((entry) => entry.source),
+    videoUrl: state.videoUrl,
+    videoPath: state.videoPath,
+  };
+}
+
+/**
+ * Reads the history, oldest first. Unreadable lines are skipped so one bad
+ * write does not hide every other video.
+ */
+export function loadHistory(runsDir = DEFAULT_RUNS_DIR): VideoHistoryEntry[] {
+  const historyPath = getHistoryPath(runsDir);
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+  return fs
+    .readFileSync(historyPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        const entry = JSON.parse(line) as VideoHistoryEntry;
+        return typeof entry.runId === "string" &&
+          typeof entry.script === "string"
+          ? [entry]
+          : [];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Adds the entry, replacing an earlier one for the same run (a resumed run
+ * that re-rendered its video).
+ */
+export function recordVideo(
+  entry: VideoHistoryEntry,
+  runsDir = DEFAULT_RUNS_DIR
+): void {
+  const entries = [
+    ...loadHistory(runsDir).filter((e) => e.runId !== entry.runId),
+    entry,
+  ];
+  fs.mkdirSync(runsDir, { recursive: true });
+
+  // Same temp-file-then-rename as checkpoints
+  const historyPath = getHistoryPath(runsDir);
+  const tmpPath = `${historyPath}.tmp`;
+  fs.writeFileSync(
+    tmpPath,
+    entries.map((e) => JSON.stringify(e)).join("\n") + "\n"
+  );
+  fs.renameSync(tmpPath, historyPath);
+}
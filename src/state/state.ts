@@ -1,8 +1,22 @@
+import type { AudioOverrides } from "../config/audio.js";
+import type { ResearchOverrides } from "../config/research.js";
+import type { HookPattern } from "../research/hooks.js";
+import type { StyleRule } from "../scripting/style.js";
+import type { VideoOverrides } from "../config/video.js";
+
 export interface VideoReference {
   title: string;
   url: string;
   videoId: string;
-  viewCount?: string;
+  viewCount?: number;
+  // Statistics from the YouTube Data API; missing when they could not be
+  // fetched (or are hidden, for likes)
+  likeCount?: number;
+  commentCount?: number;
+  durationSeconds?: number;
+  channelTitle?: string;
+  // YYYY-MM-DD
+  publishedAt?: string;
 }
 
 export interface TwitterInsight {
@@ -13,20 +27,187 @@ export interface TwitterInsight {
   views: number;
 }
 
+// A news article found by Exa search
+export interface NewsItem {
+  title: string;
+  url: string;
+  // YYYY-MM-DD, when Exa knows it
+  publishedDate?: string;
+  author?: string;
+}
+
+// One caption line, times in seconds from the start of the video
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  duration: number;
+}
+
+export interface PacingStats {
+  durationSeconds: number;
+  wordCount: number;
+  wordsPerSecond: number;
+  // First sentence of the video and how long it takes to say
+  hook: string;
+  hookWords: number;
+  hookSeconds: number;
+}
+
+export interface VideoTranscript {
+  videoId: string;
+  title: string;
+  // Provider that supplied the transcript, e.g. "apify" or "file"
+  provider: string;
+  segments: TranscriptSegment[];
+  pacing: PacingStats;
+}
+
+// How often a hook pattern appears in the top videos' titles and hooks
+export interface HookPatternStats {
+  pattern: HookPattern;
+  count: number;
+  // Up to three titles or spoken hooks that use it
+  examples: string[];
+}
+
+export interface ResearchSourceStatus {
+  status: "ok" | "empty" | "failed";
+  // Error or timeout message for failed sources
+  reason?: string;
+  durationMs: number;
+  // Set when the result came from the research cache
+  cachedAt?: string;
+}
+
 export interface ResearchData {
   videos: VideoReference[];
   rawTranscripts: string;
+  // Trend Researcher's summary of the news below
   trends: string;
+  // Articles returned by Exa search; missing on runs recorded before it existed
+  news?: NewsItem[];
   twitterInsights?: TwitterInsight[];
+  // Transcripts of the top videos, used as the scripting pacing reference
+  transcripts?: VideoTranscript[];
+  // Hook patterns of the top videos, most used first
+  hookPatterns?: HookPatternStats[];
+  // Outcome of each source by name (plus "transcripts"); missing on runs
+  // recorded before it existed
+  sources?: Record<string, ResearchSourceStatus>;
+  // Search query each source ran (or was served from the cache) by name
+  queries?: Record<string, string>;
+  // Items from registered sources other than the built-in ones above
+  sourceItems?: Record<string, unknown[]>;
+  // Scout items dropped during validation, and why
+  warnings?: string[];
+}
+
+// A research item a script can cite, with its id in the citation prompt
+export interface CitedSource {
+  id: string;
+  type: "news" | "tweet" | "video";
+  // Article or video title, or the tweet text
+  title: string;
+  url: string;
+}
+
+// One factual claim from the script and the research it came from;
+// an empty `sources` list means no research item supports it
+export interface ScriptCitation {
+  claim: string;
+  sources: CitedSource[];
+}
+
+// A number, date or name from the script, and whether the research
+// mentions it
+export interface FactCheckClaim {
+  text: string;
+  kind: "number" | "date" | "name";
+  supported: boolean;
+}
+
+export interface FactCheckReport {
+  claims: FactCheckClaim[];
+  // How many of `claims` the research does not support
+  unsupported: number;
+}
+
+// A past video whose script is close to the current one
+export interface RepeatMatch {
+  runId: string;
+  topic: string;
+  story: string;
+  // Content-word cosine similarity of the two scripts, 0-1
+  similarity: number;
+}
+
+// One of several scripts written in the same pass, best score first
+export interface ScriptVariant {
+  script: string;
+  // The research item the script is about
+  story: string;
+  hookPattern?: HookPattern | undefined;
+  // Share of the style rules the script meets, 0-100
+  score: number;
+  violations: StyleViolation[];
+}
+
+// A writing rule the script breaks
+export interface StyleViolation {
+  rule: StyleRule;
+  // What is wrong, e.g. "92 words (aim for 75-85)"
+  message: string;
+  // The offending text: emojis, banned phrases or the closing sentence
+  found?: string[] | undefined;
+}
+
+// Per-run overrides, e.g. from a batch file row
+export interface RunSettings {
+  // Named profile from the "audio.profiles" config section
+  audioProfile?: string | undefined;
+  // Individual ElevenLabs settings, applied on top of the profile
+  audio?: AudioOverrides | undefined;
+  // Named profile from the "video.profiles" config section
+  videoProfile?: string | undefined;
+  // Individual HeyGen settings, applied on top of the profile
+  video?: VideoOverrides | undefined;
+  // Spoken length of the script in seconds
+  targetSeconds?: number | undefined;
+  // Research sources to run; all registered sources when unset
+  researchSources?: string[] | undefined;
+  // Named profile from the "research.profiles" config section
+  researchProfile?: string | undefined;
+  // Research windows and thresholds, applied on top of the profile
+  research?: ResearchOverrides | undefined;
+  // Hook pattern the script must open with; the most used one when unset
+  hookPattern?: HookPattern | undefined;
+  // Style profile file from the styles folder; the configured one when unset
+  styleProfile?: string | undefined;
 }
 
 export interface AgentState {
   topic: string;
+  settings?: RunSettings | undefined;
   researchData?: ResearchData | undefined;
   script?: string | undefined;
+  // Where each factual claim in `script` came from
+  citations?: ScriptCitation[] | undefined;
+  // Claims in `script` checked against the research
+  factCheck?: FactCheckReport | undefined;
+  // Writing rules `script` breaks
+  styleViolations?: StyleViolation[] | undefined;
+  // Set when `script` is close to a previously produced video
+  repeatOf?: RepeatMatch | undefined;
+  // Scripts the reviewer chose `script` from, when several were written
+  variants?: ScriptVariant[] | undefined;
   // NEW: Store feedback for regeneration
   // FIX: Added "| undefined" here.
   // This allows you to do: state.feedback = undefined
   feedback?: string | undefined;
   audioUrl?: string | undefined; // <--- Add this
+  // HeyGen job id, checkpointed as soon as the render starts so a
+  // timed-out run can re-poll instead of paying for a new video
+  heygenVideoId?: string | undefined;
+  videoUrl?: string | undefined;
+  videoPath?: string | undefined;
 }
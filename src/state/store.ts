@@ -0,0 +1,108 @@
+// src/state/store.ts
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import type { AgentState } from "./state.js";
+
+export const DEFAULT_RUNS_DIR = "runs";
+const STATE_FILE = "state.json";
+
+export type StageStatus = "completed" | "skipped" | "failed";
+
+export interface StageResult {
+  status: StageStatus;
+  startedAt: string;
+  durationMs: number;
+  // Skip reason or error message
+  detail?: string | undefined;
+}
+
+/**
+ * Everything needed to pick a run back up: the agent state plus which
+ * stages already finished. Written to <runsDir>/<runId>/state.json.
+ */
+export interface RunCheckpoint {
+  runId: string;
+  createdAt: string;
+  updatedAt: string;
+  completedStages: string[];
+  // Outcome of the latest attempt of each stage, keyed by stage name
+  stageResults: Record<string, StageResult>;
+  state: AgentState;
+}
+
+/**
+ * Sortable, human-readable run id, e.g. "20261019-181500-3fa2c1"
+ */
+export function generateRunId(now: Date = new Date()): string {
+  const stamp = now
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  return `${stamp}-${randomBytes(3).toString("hex")}`;
+}
+
+export function getRunDir(runId: string, runsDir = DEFAULT_RUNS_DIR): string {
+  return path.join(runsDir, runId);
+}
+
+export function runExists(runId: string, runsDir = DEFAULT_RUNS_DIR): boolean {
+  return fs.existsSync(path.join(getRunDir(runId, runsDir), STATE_FILE));
+}
+
+export function saveCheckpoint(
+  checkpoint: RunCheckpoint,
+  runsDir = DEFAULT_RUNS_DIR
+): void {
+  const runDir = getRunDir(checkpoint.runId, runsDir);
+  fs.mkdirSync(runDir, { recursive: true });
+
+  checkpoint.updatedAt = new Date().toISOString();
+
+  // Write to a temp file first so a crash mid-write never corrupts the
+  // last good checkpoint.
+  const statePath = path.join(runDir, STATE_FILE);
+  const tmpPath = `${statePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(checkpoint, null, 2));
+  fs.renameSync(tmpPath, statePath);
+}
+
+export function createRun(
+  state: AgentState,
+  runsDir = DEFAULT_RUNS_DIR
+): RunCheckpoint {
+  const now = new Date();
+  const checkpoint: RunCheckpoint = {
+    runId: generateRunId(now),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    completedStages: [],
+    stageResults: {},
+    state,
+  };
+  saveCheckpoint(checkpoint, runsDir);
+  return checkpoint;
+}
+
+export function loadCheckpoint(
+  runId: string,
+  runsDir = DEFAULT_RUNS_DIR
+): RunCheckpoint {
+  const statePath = path.join(getRunDir(runId, runsDir), STATE_FILE);
+  if (!fs.existsSync(statePath)) {
+    throw new Error(`Run "${runId}" not found (expected ${statePath})`);
+  }
+  return JSON.parse(fs.readFileSync(statePath, "utf-8")) as RunCheckpoint;
+}
+
+export function markStageComplete(
+  checkpoint: RunCheckpoint,
+  stage: string,
+  runsDir = DEFAULT_RUNS_DIR
+): void {
+  if (!checkpoint.completedStages.includes(stage)) {
+    checkpoint.completedStages.push(stage);
+  }
+  saveCheckpoint(checkpoint, runsDir);
+}
@@ -0,0 +1,101 @@
+// src/transcripts/apify.ts
+import {
+  getActiveConnectionId,
+  getComposioClient,
+} from "../services/client.js";
+import type { TranscriptSegment } from "../state/state.js";
+import type { TranscriptProvider } from "./provider.js";
+
+function toSeconds(value: unknown): number | undefined {
+  const seconds = typeof value === "string" ? Number(value) : value;
+  return typeof seconds === "number" && Number.isFinite(seconds) && seconds >= 0
+    ? seconds
+    : undefined;
+}
+
+function toSegment(value: unknown): TranscriptSegment | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const line = value as Record<string, unknown>;
+  const start = toSeconds(line.start ?? line.offset);
+  if (typeof line.text !== "string" || start === undefined) {
+    return undefined;
+  }
+  return {
+    text: line.text.trim(),
+    start,
+    duration: toSeconds(line.dur ?? line.duration) ?? 0,
+  };
+}
+
+/**
+ * Finds the first list of timed caption lines in an actor's dataset items.
+ * Transcript actors disagree on field names (`dur` vs `duration`,
+ * `offset` vs `start`) and on nesting, so the items are searched.
+ */
+export function extractSegments(
+  data: unknown
+): TranscriptSegment[] | undefined {
+  if (Array.isArray(data)) {
+    const segments = data.map(toSegment);
+    if (data.length > 0 && segments.every((segment) => segment)) {
+      return (segments as TranscriptSegment[])
+        .filter((segment) => segment.text)
+        .sort((a, b) => a.start - b.start);
+    }
+    for (const item of data) {
+      const found = extractSegments(item);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+  if (data && typeof data === "object") {
+    for (const value of Object.values(data)) {
+      const found = extractSegments(value);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Runs an Apify transcript actor through Composio's proxy, the same way the
+ * video stage calls HeyGen. Requires an active Apify connection.
+ */
+export function createApifyTranscriptProvider(
+  actorId: string
+): TranscriptProvider {
+  let connectionId: Promise<string> | undefined;
+
+  return {
+    name: "apify",
+    async fetchTranscript(video, signal) {
+      connectionId ??= getActiveConnectionId(
+        "apify",
+        process.env.APIFY_AUTH_CONFIG_ID
+      );
+
+      const response = await getComposioClient().tools.proxyExecute({
+        connectedAccountId: await connectionId,
+        method: "POST",
+        endpoint: `/v2/acts/${encodeURIComponent(
+          actorId
+        )}/run-sync-get-dataset-items`,
+        body: { videoUrl: video.url },
+      });
+      signal.throwIfAborted();
+
+      if (response.status >= 400) {
+        throw new Error(
+          `Apify actor ${actorId} failed with HTTP ${response.status}`
+        );
+      }
+      return extractSegments(response.data);
+    },
+  };
+}
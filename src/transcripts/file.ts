@@ -0,0 +1,96 @@
+// src/transcripts/file.ts
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import type { TranscriptSegment, VideoReference } from "../state/state.js";
+import type { TranscriptProvider } from "./provider.js";
+
+const transcriptFileSchema = z.object({
+  videoId: z.string(),
+  provider: z.string(),
+  fetchedAt: z.string(),
+  segments: z
+    .array(
+      z.object({
+        text: z.string(),
+        start: z.number().nonnegative(),
+        duration: z.number().nonnegative(),
+      })
+    )
+    .min(1),
+});
+
+export type TranscriptFile = z.infer<typeof transcriptFileSchema>;
+
+// Video ids come from model output, so keep them to safe file names
+function getTranscriptPath(dir: string, videoId: string): string {
+  return path.join(dir, `${videoId.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+/**
+ * Reads transcripts saved as <dir>/<videoId>.json. Missing or unreadable
+ * files count as "no transcript" so a bad cache entry is simply refetched.
+ */
+export function createFileTranscriptProvider(dir: string): TranscriptProvider {
+  return {
+    name: "file",
+    async fetchTranscript(video: VideoReference) {
+      const filePath = getTranscriptPath(dir, video.videoId);
+      if (!fs.existsSync(filePath)) {
+        return undefined;
+      }
+      try {
+        const parsed = transcriptFileSchema.safeParse(
+          JSON.parse(fs.readFileSync(filePath, "utf-8"))
+        );
+        return parsed.success ? parsed.data.segments : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+export function saveTranscript(
+  dir: string,
+  videoId: string,
+  provider: string,
+  segments: TranscriptSegment[]
+): void {
+  fs.mkdirSync(dir, { recursive: true });
+  const file: TranscriptFile = {
+    videoId,
+    provider,
+    fetchedAt: new Date().toISOString(),
+    segments,
+  };
+  fs.writeFileSync(
+    getTranscriptPath(dir, videoId),
+    JSON.stringify(file, null, 2)
+  );
+}
+
+/**
+ * Serves transcripts from `dir` when present and stores whatever `provider`
+ * fetches, so each video is only transcribed once.
+ */
+export function withTranscriptCache(
+  provider: TranscriptProvider,
+  dir: string
+): TranscriptProvider {
+  const cache = createFileTranscriptProvider(dir);
+  return {
+    name: provider.name,
+    async fetchTranscript(video, signal) {
+      const cached = await cache.fetchTranscript(video, signal);
+      if (cached) {
+        return cached;
+      }
+      const segments = await provider.fetchTranscript(video, signal);
+      if (segments?.length) {
+        saveTranscript(dir, video.videoId, provider.name, segments);
+      }
+      return segments;
+    },
+  };
+}
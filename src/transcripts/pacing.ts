@@ -0,0 +1,92 @@
+// src/transcripts/pacing.ts
+import type {
+  PacingStats,
+  TranscriptSegment,
+  VideoTranscript,
+} from "../state/state.js";
+
+// A hook that runs longer than this is cut off here
+const MAX_HOOK_SECONDS = 8;
+const SENTENCE_END = /[.!?]["')\]]?$/;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+/**
+ * Measures speaking pace and the opening hook of one transcript. The hook
+ * is the first sentence, timed by interpolating within its last segment.
+ */
+export function computePacing(segments: TranscriptSegment[]): PacingStats {
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  if (!first || !last) {
+    throw new Error("Cannot compute pacing for an empty transcript");
+  }
+
+  const durationSeconds = Math.max(
+    last.start + last.duration - first.start,
+    0.1
+  );
+  const wordCount = segments.reduce((sum, s) => sum + countWords(s.text), 0);
+
+  const hookWords: string[] = [];
+  let hookSeconds = 0;
+  for (const segment of segments) {
+    const elapsed = segment.start - first.start;
+    if (elapsed >= MAX_HOOK_SECONDS) {
+      break;
+    }
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const endIndex = words.findIndex((word) => SENTENCE_END.test(word));
+    const taken = endIndex === -1 ? words : words.slice(0, endIndex + 1);
+    hookWords.push(...taken);
+    hookSeconds =
+      elapsed + segment.duration * (words.length ? taken.length / words.length : 1);
+    if (endIndex !== -1) {
+      break;
+    }
+  }
+
+  return {
+    durationSeconds: round(durationSeconds),
+    wordCount,
+    wordsPerSecond: round(wordCount / durationSeconds, 2),
+    hook: hookWords.join(" "),
+    hookWords: hookWords.length,
+    hookSeconds: round(Math.min(hookSeconds, MAX_HOOK_SECONDS)),
+  };
+}
+
+const average = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Renders the [PACING REFERENCE] section of the scripting prompt.
+ */
+export function formatPacingReference(transcripts: VideoTranscript[]): string {
+  if (transcripts.length === 0) {
+    return "No transcripts available.";
+  }
+
+  const paces = transcripts.map((t) => t.pacing.wordsPerSecond);
+  const hookWords = average(transcripts.map((t) => t.pacing.hookWords));
+  const hookSeconds = average(transcripts.map((t) => t.pacing.hookSeconds));
+
+  const examples = transcripts
+    .map(
+      (t) =>
+        `- "${t.title}": hook "${t.pacing.hook}" (${t.pacing.hookWords} words, ${t.pacing.hookSeconds}s), ${t.pacing.wordsPerSecond} words/s overall`
+    )
+    .join("\n");
+
+  return `
+    Measured from ${transcripts.length} top short(s):
+    - Average pace: ${round(average(paces))} words per second (range ${round(
+      Math.min(...paces)
+    )}-${round(Math.max(...paces))})
+    - Average hook: ${round(hookWords, 0)} words in ${round(hookSeconds)} seconds
+    Hooks from those videos (study the rhythm, do not copy them):
+    ${examples}
+    Match this pace and land your hook in about ${round(hookSeconds)} seconds.
+  `;
+}
@@ -0,0 +1,37 @@
+// src/transcripts/provider.ts
+import type { TranscriptConfig } from "../config/transcripts.js";
+import type { TranscriptSegment, VideoReference } from "../state/state.js";
+import { createApifyTranscriptProvider } from "./apify.js";
+import { createFileTranscriptProvider, withTranscriptCache } from "./file.js";
+
+/**
+ * Source of timed captions for a video. Implementations resolve undefined
+ * when the video has no usable transcript and throw on transport errors.
+ */
+export interface TranscriptProvider {
+  readonly name: string;
+  fetchTranscript(
+    video: VideoReference,
+    signal: AbortSignal
+  ): Promise<TranscriptSegment[] | undefined>;
+}
+
+/**
+ * Builds the provider selected in the transcripts config, or undefined when
+ * transcripts are turned off. Network providers are wrapped in the file cache.
+ */
+export function createTranscriptProvider(
+  config: TranscriptConfig
+): TranscriptProvider | undefined {
+  switch (config.provider) {
+    case "none":
+      return undefined;
+    case "file":
+      return createFileTranscriptProvider(config.cacheDir);
+    case "apify":
+      return withTranscriptCache(
+        createApifyTranscriptProvider(config.apifyActorId),
+        config.cacheDir
+      );
+  }
+}
@@ -16,7 +16,7 @@ export class TestFixtureFactory {
       title: 'How AI Will Change Everything in 2024',
       url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
       videoId: 'dQw4w9WgXcQ',
-      viewCount: '1234567'
+      viewCount: 1234567
     }
     
     return { ...defaults, ...overrides }
@@ -32,7 +32,7 @@ export class TestFixtureFactory {
         title: `${baseOverrides.title || 'Mock Video'} #${index + 1}`,
         videoId: `mock-video-${index + 1}`,
         url: `https://youtube.com/watch?v=mock-video-${index + 1}`,
-        viewCount: String(Math.floor(Math.random() * 10000000) + 100000)
+        viewCount: Math.floor(Math.random() * 10000000) + 100000
       })
     )
   }
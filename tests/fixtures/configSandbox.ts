@@ -0,0 +1,47 @@
+import { beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { resetConfigCache } from '../../src/config/file.js'
+
+export interface ConfigSandbox {
+  // Fresh temporary directory for the current test
+  readonly dir: string
+  // Writes `config` as the config file and points VIDEO_AGENT_CONFIG at it
+  writeConfig: (config: unknown) => void
+}
+
+/**
+ * Registers hooks that run each test of the suite without a config file,
+ * with `envVars` unset and in a fresh temporary directory. process.env is
+ * restored and the directory removed after each test.
+ */
+export function useConfigSandbox(envVars: readonly string[] = []): ConfigSandbox {
+  let dir = ''
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'))
+    envVars.forEach((name) => delete process.env[name])
+    delete process.env.VIDEO_AGENT_CONFIG
+    resetConfigCache()
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    resetConfigCache()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  return {
+    get dir() {
+      return dir
+    },
+    writeConfig(config) {
+      const configPath = path.join(dir, 'video-agent.config.json')
+      fs.writeFileSync(configPath, JSON.stringify(config))
+      process.env.VIDEO_AGENT_CONFIG = configPath
+      resetConfigCache()
+    }
+  }
+}
@@ -188,18 +188,18 @@ describe('Mock Infrastructure', () => {
         title: expect.any(String),
         url: expect.any(String),
         videoId: expect.any(String),
-        viewCount: expect.any(String)
+        viewCount: expect.any(Number)
       })
     })
 
     it('should create VideoReference with overrides', () => {
       const video = TestFixtureFactory.createVideoReference({
         title: 'Custom Title',
-        viewCount: '999999'
+        viewCount: 999999
       })
       
       expect(video.title).toBe('Custom Title')
-      expect(video.viewCount).toBe('999999')
+      expect(video.viewCount).toBe(999999)
     })
 
     it('should create complete ResearchData objects', () => {
@@ -1,10 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { runAudioStage } from '../../../src/agents/audio.js'
+import { AudioGenerationError, runAudioStage } from '../../../src/agents/audio.js'
 import { mockComposioClient } from '../../mocks/MockComposioClient.js'
+import { DEFAULT_AUDIO_CONFIG } from '../../../src/config/audio.js'
 
 // Mock the client module
 vi.mock('../../../src/services/client.js', () => ({
   createToolkitSession: vi.fn(),
+  getComposioClient: vi.fn(),
+  getActiveConnectionId: vi.fn(),
+  getComposioUserId: vi.fn(() => 'test-user-123'),
   COMPOSIO_USER_ID: 'test-user-123'
 }))
 
@@ -23,6 +27,12 @@ vi.mock('@openai/agents', () => ({
   run: vi.fn()
 }))
 
+// Shape of a hosted MCP call in RunResult.newItems
+const toolCallItem = (output: string) => ({
+  type: 'tool_call_item',
+  rawItem: { type: 'hosted_tool_call', name: 'mcp_call', status: 'completed', output }
+})
+
 describe('Audio Agent Unit Tests', () => {
   let createToolkitSession: any
   let Agent: any
@@ -98,6 +108,27 @@ describe('Audio Agent Unit Tests', () => {
       })
     })
 
+    it('should use the resolved audio configuration when provided', async () => {
+      // Arrange
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: 'https://api.elevenlabs.io/v1/audio/override.mp3'
+      })
+
+      // Act
+      await runAudioStage('Voice override script', {
+        ...DEFAULT_AUDIO_CONFIG,
+        voiceId: 'custom-voice-42',
+        stability: 0.9,
+        outputFormat: 'mp3_44100_192'
+      })
+
+      // Assert
+      const agentCall = vi.mocked(Agent).mock.calls[0][0]
+      expect(agentCall.instructions).toContain('Voice ID: "custom-voice-42"')
+      expect(agentCall.instructions).toContain('Output Format: "mp3_44100_192"')
+      expect(agentCall.instructions).toContain('stability 0.9, similarity_boost 0.75, style 0')
+    })
+
     it('should include correct model configuration in instructions', async () => {
       // Arrange
       const scriptText = 'Script for model configuration test'
@@ -287,14 +318,14 @@ describe('Audio Agent Unit Tests', () => {
       expect(result).toBe(expectedUrl)
     })
 
-    it('should extract URL from response with extra text', async () => {
+    it('should take the URL from the ElevenLabs tool call output', async () => {
       // Arrange
-      const scriptText = 'Test script for URL extraction with text'
-      const expectedUrl = 'https://api.elevenlabs.io/v1/audio/with-text.mp3'
-      const responseWithText = `Here is your generated audio: ${expectedUrl} - The audio has been successfully created.`
-      
+      const scriptText = 'Test script for tool output extraction'
+      const expectedUrl = 'https://storage.elevenlabs.io/audio/tool-output.mp3'
+
       vi.mocked(run).mockResolvedValueOnce({
-        finalOutput: responseWithText
+        newItems: [toolCallItem(JSON.stringify({ data: { file_url: expectedUrl } }))],
+        finalOutput: 'Here is your generated audio: https://example.com/not-the-audio'
       })
 
       // Act
@@ -304,16 +335,16 @@ describe('Audio Agent Unit Tests', () => {
       expect(result).toBe(expectedUrl)
     })
 
-    it('should extract URL from markdown formatted response', async () => {
+    it('should read URLs from JSON wrapped in MCP text content', async () => {
       // Arrange
-      const scriptText = 'Test script for markdown URL extraction'
-      const expectedUrl = 'https://api.elevenlabs.io/v1/audio/markdown.mp3'
-      const markdownResponse = `[Generated Audio](${expectedUrl})`
-      
-      vi.mocked(run).mockResolvedValueOnce({
-        finalOutput: markdownResponse
+      const scriptText = 'Test script for wrapped tool output'
+      const expectedUrl = 'https://storage.elevenlabs.io/audio/wrapped.mp3'
+      const wrapped = JSON.stringify({
+        content: [{ type: 'text', text: JSON.stringify({ successful: true, data: { url: expectedUrl } }) }]
       })
 
+      vi.mocked(run).mockResolvedValueOnce({ newItems: [toolCallItem(wrapped)] })
+
       // Act
       const result = await runAudioStage(scriptText)
 
@@ -321,22 +352,52 @@ describe('Audio Agent Unit Tests', () => {
       expect(result).toBe(expectedUrl)
     })
 
-    it('should extract first URL when multiple URLs are present', async () => {
+    it('should accept extensionless URLs declared as audio by mimetype', async () => {
       // Arrange
-      const scriptText = 'Test script for multiple URLs'
-      const firstUrl = 'https://api.elevenlabs.io/v1/audio/first.mp3'
-      const secondUrl = 'https://api.elevenlabs.io/v1/audio/second.mp3'
-      const responseWithMultipleUrls = `First audio: ${firstUrl} and backup: ${secondUrl}`
-      
+      const scriptText = 'Test script for mimetype detection'
+      const expectedUrl = 'https://files.composio.dev/download/abc123'
+      const output = JSON.stringify({
+        data: { file: { s3url: expectedUrl, mimetype: 'audio/mpeg', name: 'speech' } }
+      })
+
+      vi.mocked(run).mockResolvedValueOnce({ newItems: [toolCallItem(output)] })
+
+      // Act
+      const result = await runAudioStage(scriptText)
+
+      // Assert
+      expect(result).toBe(expectedUrl)
+    })
+
+    it('should reject a markdown formatted final output without a tool result', async () => {
+      // Arrange
+      const scriptText = 'Test script for markdown URL extraction'
+      const markdownResponse = '[Generated Audio](https://api.elevenlabs.io/v1/audio/markdown.mp3)'
+
       vi.mocked(run).mockResolvedValueOnce({
-        finalOutput: responseWithMultipleUrls
+        finalOutput: markdownResponse
       })
 
+      // Act & Assert
+      await expect(runAudioStage(scriptText)).rejects.toBeInstanceOf(AudioGenerationError)
+    })
+
+    it('should skip non-audio URLs in the tool output', async () => {
+      // Arrange
+      const scriptText = 'Test script for multiple URLs'
+      const audioUrl = 'https://api.elevenlabs.io/v1/audio/first.mp3'
+      const output = JSON.stringify({
+        docs: 'https://elevenlabs.io/docs/api-reference',
+        data: { audio_url: audioUrl }
+      })
+
+      vi.mocked(run).mockResolvedValueOnce({ newItems: [toolCallItem(output)] })
+
       // Act
       const result = await runAudioStage(scriptText)
 
       // Assert
-      expect(result).toBe(firstUrl)
+      expect(result).toBe(audioUrl)
     })
 
     it('should handle HTTP URLs (not just HTTPS)', async () => {
@@ -355,20 +416,23 @@ describe('Audio Agent Unit Tests', () => {
       expect(result).toBe(httpUrl)
     })
 
-    it('should return raw output when no URL pattern is found', async () => {
+    it('should throw AudioGenerationError when no URL is returned', async () => {
       // Arrange
       const scriptText = 'Test script for no URL'
       const rawResponse = 'Audio generation completed successfully but no URL provided'
-      
+
       vi.mocked(run).mockResolvedValueOnce({
+        newItems: [toolCallItem('{"successful": true, "data": {}}')],
         finalOutput: rawResponse
       })
 
       // Act
-      const result = await runAudioStage(scriptText)
+      const error = await runAudioStage(scriptText).catch((e) => e)
 
       // Assert
-      expect(result).toBe(rawResponse)
+      expect(error).toBeInstanceOf(AudioGenerationError)
+      expect(error.message).toBe('ElevenLabs tool call did not return an audio URL')
+      expect(error.output).toBe(rawResponse)
     })
 
     it('should handle URLs with query parameters', async () => {
@@ -486,31 +550,50 @@ describe('Audio Agent Unit Tests', () => {
     it('should handle null or undefined agent response', async () => {
       // Arrange
       const scriptText = 'Test script for null response'
-      
+
       vi.mocked(run).mockResolvedValueOnce({
         finalOutput: null
       })
 
-      // Act
-      const result = await runAudioStage(scriptText)
-
-      // Assert - Should return empty string when no URL found
-      expect(result).toBe('')
+      // Act & Assert
+      await expect(runAudioStage(scriptText)).rejects.toThrow(
+        'ElevenLabs tool was not called and the agent did not return an audio URL'
+      )
     })
 
     it('should handle undefined finalOutput', async () => {
       // Arrange
       const scriptText = 'Test script for undefined response'
-      
+
       vi.mocked(run).mockResolvedValueOnce({
         // Missing finalOutput property
       })
 
-      // Act
-      const result = await runAudioStage(scriptText)
+      // Act & Assert
+      await expect(runAudioStage(scriptText)).rejects.toBeInstanceOf(AudioGenerationError)
+    })
+
+    it('should detect an auth link returned by the tool call', async () => {
+      // Arrange
+      const scriptText = 'Test script for tool auth link'
+      const authUrl = 'https://connect.composio.dev/link/lk_123'
+
+      vi.mocked(run).mockResolvedValueOnce({
+        newItems: [toolCallItem(JSON.stringify({ redirect_url: authUrl }))],
+        finalOutput: 'Please authenticate first.'
+      })
+
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      // Act & Assert
+      await expect(runAudioStage(scriptText)).rejects.toThrow(
+        'elevenlabs authentication pending'
+      )
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        `👉 Please click here to authenticate ElevenLabs: ${authUrl}\n`
+      )
 
-      // Assert - Should return empty string when no URL found
-      expect(result).toBe('')
+      consoleErrorSpy.mockRestore()
     })
 
     it('should not throw error for non-auth URLs containing "connect"', async () => {
@@ -712,35 +795,40 @@ describe('Audio Agent Unit Tests', () => {
       expect(result).toBe(specialUrl)
     })
 
-    it('should handle malformed URLs gracefully', async () => {
+    it('should reject malformed URLs', async () => {
       // Arrange
       const scriptText = 'Malformed URL test'
-      const malformedResponse = 'Generated audio at: htp://invalid-url'
-      
+
       vi.mocked(run).mockResolvedValueOnce({
-        finalOutput: malformedResponse
+        finalOutput: 'htp://invalid-url.mp3'
       })
 
-      // Act
-      const result = await runAudioStage(scriptText)
+      // Act & Assert
+      await expect(runAudioStage(scriptText)).rejects.toBeInstanceOf(AudioGenerationError)
+    })
+
+    it('should reject bare URLs that are not audio files', async () => {
+      // Arrange
+      const scriptText = 'Non-audio URL test'
+
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: 'https://elevenlabs.io/app/speech-synthesis'
+      })
 
-      // Assert - Should return raw output when no valid URL found
-      expect(result).toBe(malformedResponse)
+      // Act & Assert
+      await expect(runAudioStage(scriptText)).rejects.toBeInstanceOf(AudioGenerationError)
     })
 
     it('should handle response with only whitespace', async () => {
       // Arrange
       const scriptText = 'Whitespace response test'
-      
+
       vi.mocked(run).mockResolvedValueOnce({
         finalOutput: '   \n\t   \n   '
       })
 
-      // Act
-      const result = await runAudioStage(scriptText)
-
-      // Assert
-      expect(result).toBe('   \n\t   \n   ')
+      // Act & Assert
+      await expect(runAudioStage(scriptText)).rejects.toBeInstanceOf(AudioGenerationError)
     })
 
     it('should handle concurrent audio generation requests', async () => {
@@ -768,4 +856,101 @@ describe('Audio Agent Unit Tests', () => {
       expect(createToolkitSession).toHaveBeenCalledTimes(2)
     })
   })
+
+  describe('Direct ElevenLabs Backend', () => {
+    const directConfig = { ...DEFAULT_AUDIO_CONFIG, backend: 'direct' as const }
+    let proxyExecute: any
+    let authorize: any
+
+    beforeEach(async () => {
+      const clientModule = await import('../../../src/services/client.js')
+      proxyExecute = vi.fn()
+      authorize = vi.fn()
+      vi.mocked(clientModule.getComposioClient).mockReturnValue({
+        tools: { proxyExecute },
+        toolkits: { authorize }
+      } as any)
+      vi.mocked(clientModule.getActiveConnectionId).mockResolvedValue('conn-eleven-1')
+    })
+
+    it('should call text-to-speech through proxyExecute without an agent', async () => {
+      // Arrange
+      const audioUrl = 'https://composio-proxy.s3.amazonaws.com/tts/abc.mp3?X-Amz-Signature=1'
+      proxyExecute.mockResolvedValueOnce({
+        status: 200,
+        binary_data: { content_type: 'audio/mpeg', size: 48213, url: audioUrl }
+      })
+
+      // Act
+      const result = await runAudioStage('Direct backend script', directConfig)
+
+      // Assert
+      expect(result).toBe(audioUrl)
+      expect(run).not.toHaveBeenCalled()
+      expect(createToolkitSession).not.toHaveBeenCalled()
+      expect(proxyExecute).toHaveBeenCalledWith({
+        connectedAccountId: 'conn-eleven-1',
+        method: 'POST',
+        endpoint: `/v1/text-to-speech/${DEFAULT_AUDIO_CONFIG.voiceId}`,
+        parameters: [{ name: 'output_format', value: 'mp3_44100_128', in: 'query' }],
+        body: {
+          text: 'Direct backend script',
+          model_id: 'eleven_multilingual_v2',
+          voice_settings: { stability: 0.5, similarity_boost: 0.75, style: 0 }
+        }
+      })
+    })
+
+    it('should throw AudioGenerationError on an HTTP error', async () => {
+      // Arrange
+      proxyExecute.mockResolvedValueOnce({
+        status: 422,
+        data: { detail: { status: 'voice_not_found' } }
+      })
+
+      // Act
+      const error = await runAudioStage('Bad voice', directConfig).catch((e) => e)
+
+      // Assert
+      expect(error).toBeInstanceOf(AudioGenerationError)
+      expect(error.message).toBe('ElevenLabs text-to-speech failed with HTTP 422')
+      expect(error.output).toContain('voice_not_found')
+    })
+
+    it('should reject responses that are not audio files', async () => {
+      // Arrange
+      proxyExecute.mockResolvedValueOnce({
+        status: 200,
+        binary_data: { content_type: 'text/html', size: 120, url: 'https://example.com/page' }
+      })
+
+      // Act & Assert
+      await expect(runAudioStage('Not audio', directConfig)).rejects.toThrow(
+        'ElevenLabs response did not include an audio file'
+      )
+    })
+
+    it('should surface an auth link when ElevenLabs is not connected', async () => {
+      // Arrange
+      const clientModule = await import('../../../src/services/client.js')
+      const authUrl = 'https://connect.composio.dev/link/lk_direct'
+      vi.mocked(clientModule.getActiveConnectionId).mockRejectedValueOnce(
+        new Error('No active connection found for elevenlabs. Please authenticate User: test-user-123')
+      )
+      authorize.mockResolvedValueOnce({ redirectUrl: authUrl })
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      // Act & Assert
+      await expect(runAudioStage('Needs auth', directConfig)).rejects.toThrow(
+        'elevenlabs authentication pending. Please authenticate using the link above and restart.'
+      )
+      expect(authorize).toHaveBeenCalledWith('test-user-123', 'elevenlabs', process.env.ELEVENLABS_AUTH_CONFIG_ID)
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        `👉 Please click here to authenticate ElevenLabs: ${authUrl}\n`
+      )
+      expect(proxyExecute).not.toHaveBeenCalled()
+
+      consoleErrorSpy.mockRestore()
+    })
+  })
 })
\ No newline at end of file
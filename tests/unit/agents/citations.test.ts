@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  buildSourceCatalog,
+  formatCitations,
+  runCitationStage
+} from '../../../src/agents/citations.js'
+import { TestFixtureFactory } from '../../fixtures/TestFixtureFactory.js'
+
+// Mock the OpenAI agents module
+vi.mock('@openai/agents', () => ({
+  Agent: vi.fn(function(this: any, config: any) {
+    this.name = config.name
+    this.instructions = config.instructions
+    this.outputType = config.outputType
+    this.model = config.model
+  }),
+  run: vi.fn()
+}))
+
+describe('Script Citations', () => {
+  let run: any
+
+  const research = TestFixtureFactory.createResearchData({
+    videos: TestFixtureFactory.createVideoReferences(1),
+    news: [
+      { title: 'Anthropic raises $2 billion', url: 'https://news.example.com/raise', publishedDate: '2026-10-01' }
+    ]
+  })
+
+  beforeEach(async () => {
+    run = (await import('@openai/agents')).run
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  describe('buildSourceCatalog', () => {
+    it('should number news, tweets and videos separately', () => {
+      // Act
+      const catalog = buildSourceCatalog(research)
+
+      // Assert
+      expect(catalog.map((source) => source.id)).toEqual(['N1', 'T1', 'T2', 'V1'])
+      expect(catalog[0]).toEqual({
+        id: 'N1',
+        type: 'news',
+        title: 'Anthropic raises $2 billion',
+        url: 'https://news.example.com/raise'
+      })
+      expect(catalog[1]?.url).toBe(research.twitterInsights?.[0]?.url)
+    })
+  })
+
+  describe('runCitationStage', () => {
+    it('should map claims to catalog entries and drop unknown ids', async () => {
+      // Arrange
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: {
+          citations: [
+            { claim: ' $2 billion ', sourceIds: ['N1', 'n1'] },
+            { claim: 'GPT-7 launched', sourceIds: ['X9'] },
+            { claim: '  ', sourceIds: ['T1'] }
+          ]
+        }
+      })
+
+      // Act
+      const citations = await runCitationStage('Anthropic just raised $2 billion.', research)
+
+      // Assert
+      expect(citations).toEqual([
+        { claim: '$2 billion', sources: [buildSourceCatalog(research)[0]] },
+        { claim: 'GPT-7 launched', sources: [] }
+      ])
+      const prompt = vi.mocked(run).mock.calls[0][1]
+      expect(prompt).toContain('Anthropic just raised $2 billion.')
+      expect(prompt).toContain('[N1] (news) Anthropic raises $2 billion')
+      expect(prompt).toContain('[V1] (video)')
+    })
+
+    it('should skip the agent when there is nothing to cite', async () => {
+      // Arrange
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      // Act
+      const citations = await runCitationStage('Script', { videos: [], rawTranscripts: '', trends: '' })
+
+      // Assert
+      expect(citations).toEqual([])
+      expect(run).not.toHaveBeenCalled()
+
+      warnSpy.mockRestore()
+    })
+  })
+
+  describe('formatCitations', () => {
+    it('should list sources under each claim and flag unsupported ones', () => {
+      // Arrange
+      const [news] = buildSourceCatalog(research)
+
+      // Act
+      const text = formatCitations([
+        { claim: '$2 billion', sources: [news!] },
+        { claim: 'GPT-7 launched', sources: [] }
+      ])
+
+      // Assert
+      expect(text).toBe(
+        '• "$2 billion"\n     [N1] Anthropic raises $2 billion (https://news.example.com/raise)\n' +
+        '⚠️ "GPT-7 launched"\n     no supporting source'
+      )
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import inquirer from 'inquirer'
+import { runHumanReviewNode } from '../../../src/agents/human_review.js'
+import type { ScriptVariant } from '../../../src/state/state.js'
+
+vi.mock('inquirer', () => ({
+  default: { prompt: vi.fn() }
+}))
+
+describe('Human Review', () => {
+  const originalIsTTY = process.stdin.isTTY
+  const script = 'OpenAI just shipped agents. Here is why it matters. Hit follow for more!'
+  const variants: ScriptVariant[] = [
+    { script, story: 'OpenAI agents', score: 100, violations: [] },
+    {
+      script: 'Anthropic just shipped Claude Code. It writes your tests. Hit follow for more!',
+      story: 'Claude Code',
+      score: 75,
+      violations: []
+    }
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    process.stdin.isTTY = true
+  })
+
+  afterEach(() => {
+    process.stdin.isTTY = originalIsTTY
+    vi.restoreAllMocks()
+  })
+
+  describe('Without a Prompt', () => {
+    it('should reject a missing or failed script', async () => {
+      // Act
+      const result = await runHumanReviewNode('Error: quota exceeded')
+
+      // Assert
+      expect(result).toEqual({ approved: false, feedback: 'Script generation failed.' })
+      expect(inquirer.prompt).not.toHaveBeenCalled()
+    })
+
+    it('should approve without asking when auto-approve is on', async () => {
+      // Act
+      const result = await runHumanReviewNode(script, { autoApprove: true, variants })
+
+      // Assert
+      expect(result).toEqual({ approved: true, feedback: undefined })
+      expect(inquirer.prompt).not.toHaveBeenCalled()
+    })
+
+    it('should fail instead of waiting for input without a terminal', async () => {
+      // Arrange
+      process.stdin.isTTY = false
+
+      // Act & Assert
+      await expect(runHumanReviewNode(script)).rejects.toThrow(
+        'Human review needs an interactive terminal. Re-run with --auto-approve.'
+      )
+      expect(inquirer.prompt).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Single Script', () => {
+    it('should approve the script when confirmed', async () => {
+      // Arrange
+      vi.mocked(inquirer.prompt).mockResolvedValueOnce({ isApproved: true })
+
+      // Act
+      const result = await runHumanReviewNode(script)
+
+      // Assert
+      expect(result).toEqual({ approved: true, feedback: undefined })
+    })
+
+    it('should ask for feedback when rejected', async () => {
+      // Arrange
+      vi.mocked(inquirer.prompt)
+        .mockResolvedValueOnce({ isApproved: false })
+        .mockResolvedValueOnce({ feedback: 'Shorter hook' })
+
+      // Act
+      const result = await runHumanReviewNode(script)
+
+      // Assert
+      expect(result).toEqual({ approved: false, feedback: 'Shorter hook' })
+    })
+  })
+
+  describe('Variants', () => {
+    it('should return the script of a picked variant other than the first', async () => {
+      // Arrange
+      vi.mocked(inquirer.prompt).mockResolvedValueOnce({ choice: ' 2 ' })
+
+      // Act
+      const result = await runHumanReviewNode(script, { variants })
+
+      // Assert
+      expect(result).toEqual({ approved: true, script: variants[1]!.script })
+    })
+
+    it('should not return a script when the first variant is picked', async () => {
+      // Arrange
+      vi.mocked(inquirer.prompt).mockResolvedValueOnce({ choice: '1' })
+
+      // Act
+      const result = await runHumanReviewNode(script, { variants })
+
+      // Assert
+      expect(result).toEqual({ approved: true, script: undefined })
+    })
+
+    it('should merge the listed lines of several variants', async () => {
+      // Arrange
+      vi.mocked(inquirer.prompt)
+        .mockResolvedValueOnce({ choice: 'm' })
+        .mockResolvedValueOnce({ lines: '2.1, 1.2, 1.3' })
+
+      // Act
+      const result = await runHumanReviewNode(script, { variants })
+
+      // Assert
+      expect(result).toEqual({
+        approved: true,
+        script: 'Anthropic just shipped Claude Code. Here is why it matters. Hit follow for more!'
+      })
+    })
+
+    it('should ask for feedback when every variant is rejected', async () => {
+      // Arrange
+      vi.mocked(inquirer.prompt)
+        .mockResolvedValueOnce({ choice: 'N' })
+        .mockResolvedValueOnce({ feedback: 'Pick a fresher story' })
+
+      // Act
+      const result = await runHumanReviewNode(script, { variants })
+
+      // Assert
+      expect(result).toEqual({ approved: false, feedback: 'Pick a fresher story' })
+    })
+  })
+})
@@ -1,12 +1,24 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { runResearchStage } from '../../../src/agents/research.js'
+import { DEFAULT_RESEARCH_CONFIG } from '../../../src/config/research.js'
+import { filterByEngagement } from '../../../src/research/twitter.js'
+import {
+  registerResearchSource,
+  unregisterResearchSource
+} from '../../../src/research/registry.js'
 import { mockComposioClient } from '../../mocks/MockComposioClient.js'
 import { TestFixtureFactory } from '../../fixtures/TestFixtureFactory.js'
 import type { ResearchData, VideoReference } from '../../../src/state/state.js'
+import {
+  twitterScoutOutputSchema,
+  youtubeScoutOutputSchema
+} from '../../../src/agents/research_output.js'
 
 // Mock the client module
 vi.mock('../../../src/services/client.js', () => ({
   createToolkitSession: vi.fn(),
+  getActiveConnectionId: vi.fn(),
+  getComposioClient: vi.fn(),
   COMPOSIO_USER_ID: 'test-user-123'
 }))
 
@@ -17,6 +29,7 @@ vi.mock('@openai/agents', () => ({
     this.instructions = config.instructions
     this.tools = config.tools
     this.model = config.model
+    this.outputType = config.outputType
   }),
   hostedMcpTool: vi.fn().mockImplementation((config) => ({
     serverLabel: config.serverLabel,
@@ -27,6 +40,8 @@ vi.mock('@openai/agents', () => ({
 
 describe('Research Agent Unit Tests', () => {
   let createToolkitSession: any
+  let getComposioClient: any
+  let proxyExecute: any
   let Agent: any
   let run: any
 
@@ -36,6 +51,7 @@ describe('Research Agent Unit Tests', () => {
     const agentsModule = await import('@openai/agents')
     
     createToolkitSession = clientModule.createToolkitSession
+    getComposioClient = clientModule.getComposioClient
     Agent = agentsModule.Agent
     run = agentsModule.run
     // Reset all mocks before each test
@@ -49,6 +65,20 @@ describe('Research Agent Unit Tests', () => {
       userId: 'test-user-123',
       toolkits: ['youtube']
     })
+
+    // YouTube statistics lookups find nothing unless a test says otherwise
+    proxyExecute = vi.fn().mockResolvedValue({ status: 200, data: { items: [] } })
+    vi.mocked(getComposioClient).mockReturnValue({ tools: { proxyExecute } })
+    vi.mocked(clientModule.getActiveConnectionId).mockResolvedValue('yt-connection')
+
+    // Transcripts and the research cache are opted into per test
+    process.env.TRANSCRIPT_PROVIDER = 'none'
+    process.env.RESEARCH_CACHE_TTL_HOURS = '0'
+  })
+
+  afterEach(() => {
+    delete process.env.TRANSCRIPT_PROVIDER
+    delete process.env.RESEARCH_CACHE_TTL_HOURS
   })
 
   describe('Topic Processing and API Call Orchestration', () => {
@@ -59,24 +89,28 @@ describe('Research Agent Unit Tests', () => {
       // Mock successful agent responses
       vi.mocked(run)
         .mockResolvedValueOnce({
-          finalOutput: JSON.stringify([
-            TestFixtureFactory.createVideoReference({ title: 'AI Revolution Video 1' }),
-            TestFixtureFactory.createVideoReference({ title: 'AI Revolution Video 2' })
-          ])
+          finalOutput: {
+            videos: [
+              TestFixtureFactory.createVideoReference({ title: 'AI Revolution Video 1' }),
+              TestFixtureFactory.createVideoReference({ title: 'AI Revolution Video 2' })
+            ]
+          }
         })
         .mockResolvedValueOnce({
           finalOutput: 'Recent AI trends show significant growth in automation and machine learning adoption.'
         })
         .mockResolvedValueOnce({
-          finalOutput: JSON.stringify([
-            {
-              text: 'AI is changing everything! This is huge 🚀',
-              url: 'https://twitter.com/user/status/123',
-              likes: 5000,
-              comments: 200,
-              views: 50000
-            }
-          ])
+          finalOutput: {
+            tweets: [
+              {
+                text: 'AI is changing everything! This is huge 🚀',
+                url: 'https://twitter.com/user/status/123',
+                likes: 5000,
+                comments: 200,
+                views: 50000
+              }
+            ]
+          }
         })
 
       // Act
@@ -87,7 +121,8 @@ describe('Research Agent Unit Tests', () => {
       expect(result.videos).toHaveLength(2)
       expect(result.trends).toContain('AI trends')
       expect(result.twitterInsights).toHaveLength(1)
-      expect(result.rawTranscripts).toContain('Transcription disabled')
+      expect(result.rawTranscripts).toBe('No transcripts available.')
+      expect(result.transcripts).toEqual([])
       
       // Verify all three toolkit sessions were created
       expect(createToolkitSession).toHaveBeenCalledTimes(3)
@@ -104,9 +139,9 @@ describe('Research Agent Unit Tests', () => {
       const topic = 'AI & Machine Learning "Revolution" 🤖'
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'No trends found.' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
@@ -127,9 +162,9 @@ describe('Research Agent Unit Tests', () => {
       const topic = ''
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'No trends available.' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
@@ -142,7 +177,7 @@ describe('Research Agent Unit Tests', () => {
   })
 
   describe('YouTube Search Integration and Response Parsing', () => {
-    it('should parse valid YouTube JSON response correctly', async () => {
+    it('should parse valid YouTube structured output correctly', async () => {
       // Arrange
       const topic = 'Test Topic'
       const mockVideos = [
@@ -151,11 +186,9 @@ describe('Research Agent Unit Tests', () => {
       ]
       
       vi.mocked(run)
-        .mockResolvedValueOnce({
-          finalOutput: JSON.stringify(mockVideos)
-        })
+        .mockResolvedValueOnce({ finalOutput: { videos: mockVideos } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
@@ -164,65 +197,141 @@ describe('Research Agent Unit Tests', () => {
       expect(result.videos).toHaveLength(2)
       expect(result.videos[0]).toEqual(mockVideos[0])
       expect(result.videos[1]).toEqual(mockVideos[1])
+      expect(result.warnings).toBeUndefined()
+    })
+
+    it('should give the YouTube agent a structured output type', async () => {
+      // Arrange
+      vi.mocked(run)
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
+        .mockResolvedValueOnce({ finalOutput: 'Trends data' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
+
+      // Act
+      await runResearchStage('Test Topic')
+
+      // Assert
+      const ytAgentCall = vi.mocked(Agent).mock.calls[0][0]
+      expect(ytAgentCall.outputType).toBe(youtubeScoutOutputSchema)
     })
 
-    it('should handle YouTube JSON with markdown formatting', async () => {
+    it('should coerce numeric view counts and omit missing ones', async () => {
       // Arrange
       const topic = 'Test Topic'
-      const mockVideos = [TestFixtureFactory.createVideoReference()]
-      
+      const video = { title: 'Video', url: 'https://youtube.com/shorts/abc', videoId: 'abc' }
+
       vi.mocked(run)
         .mockResolvedValueOnce({
-          finalOutput: `\`\`\`json\n${JSON.stringify(mockVideos)}\n\`\`\``
+          finalOutput: {
+            videos: [
+              { ...video, viewCount: 120000 },
+              { ...video, viewCount: null }
+            ]
+          }
         })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
-      expect(result.videos).toHaveLength(1)
-      expect(result.videos[0]).toEqual(mockVideos[0])
+      expect(result.videos).toEqual([{ ...video, viewCount: 120000 }, video])
     })
 
-    it('should use fallback parsing when primary JSON parsing fails', async () => {
+    it('should add statistics from the YouTube Data API', async () => {
       // Arrange
-      const topic = 'Test Topic'
-      const mockVideos = [TestFixtureFactory.createVideoReference()]
-      const malformedResponse = `Some text before ${JSON.stringify(mockVideos)} some text after`
-      
+      const video = { title: 'Video', url: 'https://youtube.com/shorts/abc', videoId: 'abc' }
+      const other = { ...video, videoId: 'def', url: 'https://youtube.com/shorts/def' }
+      proxyExecute.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          items: [
+            {
+              id: 'abc',
+              snippet: { channelTitle: 'AI Daily', publishedAt: '2026-10-01T12:00:00Z' },
+              statistics: { viewCount: '200000', likeCount: '9000', commentCount: '300' },
+              contentDetails: { duration: 'PT45S' }
+            }
+          ]
+        }
+      })
       vi.mocked(run)
-        .mockResolvedValueOnce({
-          finalOutput: malformedResponse
+        .mockResolvedValueOnce({ finalOutput: { videos: [{ ...video, viewCount: '1.2M' }, other] } })
+        .mockResolvedValueOnce({ finalOutput: 'Trends data' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
+
+      // Act
+      const result = await runResearchStage('Test Topic')
+
+      // Assert
+      expect(result.videos).toEqual([
+        {
+          ...video,
+          viewCount: 200000,
+          likeCount: 9000,
+          commentCount: 300,
+          durationSeconds: 45,
+          channelTitle: 'AI Daily',
+          publishedAt: '2026-10-01'
+        },
+        other
+      ])
+      expect(proxyExecute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          connectedAccountId: 'yt-connection',
+          method: 'GET',
+          parameters: expect.arrayContaining([{ name: 'id', value: 'abc,def', in: 'query' }])
         })
+      )
+    })
+
+    it('should keep the videos when the statistics lookup fails', async () => {
+      // Arrange
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const video = TestFixtureFactory.createVideoReference()
+      proxyExecute.mockResolvedValueOnce({ status: 403, data: {} })
+      vi.mocked(run)
+        .mockResolvedValueOnce({ finalOutput: { videos: [video] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
-      const result = await runResearchStage(topic)
+      const result = await runResearchStage('Test Topic')
 
       // Assert
-      expect(result.videos).toHaveLength(1)
-      expect(result.videos).toEqual(mockVideos)
+      expect(result.videos).toEqual([video])
+      expect(result.sources?.youtube?.status).toBe('ok')
+      expect(result.warnings).toEqual(['YouTube stats: failed (videos.list failed with HTTP 403)'])
+
+      warnSpy.mockRestore()
     })
 
-    it('should handle completely invalid YouTube response', async () => {
+    it('should drop invalid videos and record a warning', async () => {
       // Arrange
       const topic = 'Test Topic'
-      
+      const validVideo = TestFixtureFactory.createVideoReference()
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
       vi.mocked(run)
         .mockResolvedValueOnce({
-          finalOutput: 'This is not JSON at all'
+          finalOutput: {
+            videos: [validVideo, { ...validVideo, url: 'not a url' }]
+          }
         })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
-      expect(result.videos).toEqual([])
+      expect(result.videos).toEqual([validVideo])
+      expect(result.warnings).toHaveLength(1)
+      expect(result.warnings?.[0]).toMatch(/^YouTube Scout: dropped item 2 \(url: /)
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('YouTube Scout: dropped item 2'))
+
+      warnSpy.mockRestore()
     })
 
     it('should handle null or undefined YouTube response', async () => {
@@ -234,18 +343,19 @@ describe('Research Agent Unit Tests', () => {
           finalOutput: null
         })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
       expect(result.videos).toEqual([])
+      expect(result.warnings).toEqual(['YouTube Scout: no structured results returned'])
     })
   })
 
   describe('Twitter Integration with Engagement Filtering', () => {
-    it('should parse valid Twitter JSON response correctly', async () => {
+    it('should parse valid Twitter structured output correctly', async () => {
       // Arrange
       const topic = 'Test Topic'
       const mockTweets = [
@@ -266,11 +376,9 @@ describe('Research Agent Unit Tests', () => {
       ]
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({
-          finalOutput: JSON.stringify(mockTweets)
-        })
+        .mockResolvedValueOnce({ finalOutput: { tweets: mockTweets } })
 
       // Act
       const result = await runResearchStage(topic)
@@ -279,74 +387,87 @@ describe('Research Agent Unit Tests', () => {
       expect(result.twitterInsights).toHaveLength(2)
       expect(result.twitterInsights?.[0]).toEqual(mockTweets[0])
       expect(result.twitterInsights?.[1]).toEqual(mockTweets[1])
+      expect(vi.mocked(Agent).mock.calls[2][0].outputType).toBe(twitterScoutOutputSchema)
     })
 
-    it('should handle Twitter JSON with markdown formatting', async () => {
+    it('should coerce engagement counts reported as strings', async () => {
       // Arrange
       const topic = 'Test Topic'
-      const mockTweets = [
-        {
-          text: 'Tweet with high engagement',
-          url: 'https://twitter.com/user/status/789',
-          likes: 2000,
-          comments: 100,
-          views: 25000
-        }
-      ]
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
         .mockResolvedValueOnce({
-          finalOutput: `\`\`\`json\n${JSON.stringify(mockTweets)}\n\`\`\``
+          finalOutput: {
+            tweets: [
+              {
+                text: 'Tweet with high engagement',
+                url: 'https://twitter.com/user/status/789',
+                likes: '2,000',
+                comments: '100',
+                views: '1.5K'
+              }
+            ]
+          }
         })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
-      expect(result.twitterInsights).toHaveLength(1)
-      expect(result.twitterInsights?.[0]).toEqual(mockTweets[0])
+      expect(result.twitterInsights).toEqual([
+        {
+          text: 'Tweet with high engagement',
+          url: 'https://twitter.com/user/status/789',
+          likes: 2000,
+          comments: 100,
+          views: 1500
+        }
+      ])
     })
 
-    it('should use fallback parsing for malformed Twitter response', async () => {
+    it('should default missing view counts to zero', async () => {
       // Arrange
       const topic = 'Test Topic'
-      const mockTweets = [
-        {
-          text: 'Recovered tweet',
-          url: 'https://twitter.com/user/status/999',
-          likes: 1500,
-          comments: 75,
-          views: 20000
-        }
-      ]
-      const malformedResponse = `Error: Invalid JSON ${JSON.stringify(mockTweets)} end of response`
+      const tweet = {
+        text: 'Tweet without impressions',
+        url: 'https://twitter.com/user/status/999',
+        likes: 1500,
+        comments: 75
+      }
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({
-          finalOutput: malformedResponse
-        })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [{ ...tweet, views: null }] } })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
-      expect(result.twitterInsights).toHaveLength(1)
-      expect(result.twitterInsights).toEqual(mockTweets)
+      expect(result.twitterInsights).toEqual([{ ...tweet, views: 0 }])
     })
 
-    it('should handle completely invalid Twitter response', async () => {
+    it('should drop tweets with unparseable counts and record a warning', async () => {
       // Arrange
       const topic = 'Test Topic'
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
         .mockResolvedValueOnce({
-          finalOutput: 'Not JSON at all - just text'
+          finalOutput: {
+            tweets: [
+              {
+                text: 'Vague tweet',
+                url: 'https://twitter.com/user/status/1',
+                likes: 'lots',
+                comments: 3,
+                views: null
+              }
+            ]
+          }
         })
 
       // Act
@@ -354,25 +475,124 @@ describe('Research Agent Unit Tests', () => {
 
       // Assert
       expect(result.twitterInsights).toEqual([])
+      expect(result.warnings).toEqual([
+        expect.stringMatching(/^Twitter Scout: dropped item 1 \(likes: /)
+      ])
+
+      warnSpy.mockRestore()
     })
 
-    it('should verify Twitter agent instructions include engagement filtering', async () => {
+    it('should tell the Twitter agent to return tweets unfiltered', async () => {
       // Arrange
       const topic = 'Test Topic'
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       await runResearchStage(topic)
 
       // Assert
       const twitterAgentCall = vi.mocked(Agent).mock.calls[2][0]
-      expect(twitterAgentCall.instructions).toContain('1000+ likes')
-      expect(twitterAgentCall.instructions).toContain('10+ comments')
-      expect(twitterAgentCall.instructions).toContain('High views/engagement')
+      expect(twitterAgentCall.instructions).toContain('Return all other tweets')
+      expect(twitterAgentCall.instructions).toContain('Do not filter')
+      expect(twitterAgentCall.instructions).not.toContain('1000')
+    })
+  })
+
+  describe('Configurable Windows and Thresholds', () => {
+    const settings = {
+      ...DEFAULT_RESEARCH_CONFIG,
+      cacheTtlHours: 0,
+      exaLookbackDays: 7,
+      twitterLookbackDays: 14,
+      twitterMaxResults: 50,
+      twitterMinLikes: 500,
+      twitterMinComments: 20
+    }
+    const tweet = (likes: number, comments: number) => ({
+      text: `Tweet with ${likes} likes`,
+      url: `https://twitter.com/user/status/${likes}${comments}`,
+      likes,
+      comments,
+      views: 0
+    })
+
+    it('should use the run settings in the scout prompts', async () => {
+      // Arrange
+      vi.mocked(run)
+        .mockResolvedValueOnce({ finalOutput: 'Trends data' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
+
+      // Act
+      await runResearchStage('Test Topic', { sources: ['exa', 'twitter'], settings })
+
+      // Assert
+      const day = 24 * 60 * 60 * 1000
+      const since = (days: number) => new Date(Date.now() - days * day).toISOString().split('T')[0]
+      const [exaAgent, twitterAgent] = vi.mocked(Agent).mock.calls.map((call: any[]) => call[0])
+      expect(exaAgent.instructions).toContain(`startPublishedDate: "${since(7)}"`)
+      expect(twitterAgent.instructions).toContain('max_results: 50')
+      expect(twitterAgent.instructions).toContain(`Skip tweets posted before ${since(14)}`)
+      expect(twitterAgent.instructions).not.toContain('500')
+    })
+
+    it('should filter tweets by engagement in code and rank the rest', async () => {
+      // Arrange
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: { tweets: [tweet(600, 25), tweet(9000, 5), tweet(450, 300), tweet(2000, 40)] }
+      })
+
+      // Act
+      const result = await runResearchStage('Test Topic', { sources: ['twitter'], settings })
+
+      // Assert
+      expect(result.twitterInsights).toEqual([tweet(2000, 40), tweet(600, 25)])
+      expect(result.warnings).toEqual(['Twitter Scout: 2 tweet(s) below 500+ likes / 20+ comments'])
+
+      warnSpy.mockRestore()
+    })
+
+    it('should keep only the five most liked tweets', () => {
+      // Arrange
+      const tweets = [1, 2, 3, 4, 5, 6].map((n) => tweet(n * 100, 10))
+
+      // Act
+      const { items, belowThreshold } = filterByEngagement(tweets, { minLikes: 100, minComments: 5 })
+
+      // Assert
+      expect(items.map((t) => t.likes)).toEqual([600, 500, 400, 300, 200])
+      expect(belowThreshold).toBe(0)
+    })
+  })
+
+  describe('Query Planning', () => {
+    it('should run each source with its planned query and record the queries', async () => {
+      // Arrange
+      const topic = 'Claude code for development in 2026'
+      vi.mocked(run)
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
+        .mockResolvedValueOnce({ finalOutput: 'Trends data' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
+
+      // Act
+      const result = await runResearchStage(topic, {
+        settings: { ...DEFAULT_RESEARCH_CONFIG, cacheTtlHours: 0 }
+      })
+
+      // Assert
+      expect(result.queries).toEqual({
+        youtube: 'Claude code development 2026 #ClaudeCode #shorts',
+        exa: 'Here is a recent news article about Claude code for development in 2026:',
+        twitter: 'Claude code development -is:retweet lang:en'
+      })
+      const [ytAgent, exaAgent, twitterAgent] = vi.mocked(Agent).mock.calls.map((call: any[]) => call[0])
+      expect(ytAgent.instructions).toContain(result.queries?.youtube)
+      expect(exaAgent.instructions).toContain(`query: "${result.queries?.exa}"`)
+      expect(twitterAgent.instructions).toContain(`query: "${result.queries?.twitter}"`)
     })
   })
 
@@ -383,11 +603,11 @@ describe('Research Agent Unit Tests', () => {
       const trendsResponse = 'Recent AI developments show significant progress in natural language processing and computer vision. Major tech companies are investing heavily in AI research.'
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({
           finalOutput: trendsResponse
         })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
@@ -396,16 +616,64 @@ describe('Research Agent Unit Tests', () => {
       expect(result.trends).toBe(trendsResponse)
     })
 
+    it('should parse news items from the EXA_SEARCH tool output', async () => {
+      // Arrange
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const searchResponse = {
+        data: {
+          results: [
+            {
+              title: ' Anthropic ships Claude Code 2.0 ',
+              url: 'https://news.example.com/claude-code',
+              publishedDate: '2026-10-02T08:15:00.000Z',
+              author: 'Jane Doe',
+              score: 0.92
+            },
+            { title: 'Duplicate', url: 'https://news.example.com/claude-code' },
+            { title: 'No date', url: 'https://blog.example.com/agents', publishedDate: null, author: '' },
+            { title: 'Broken link', url: 'not a url' }
+          ]
+        }
+      }
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: 'Summary of the news',
+        newItems: [
+          {
+            type: 'tool_call_item',
+            rawItem: { type: 'hosted_tool_call', name: 'EXA_SEARCH', output: JSON.stringify([{ type: 'text', text: JSON.stringify(searchResponse) }]) }
+          }
+        ]
+      })
+
+      // Act
+      const result = await runResearchStage('Claude Code', { sources: ['exa'] })
+
+      // Assert
+      expect(result.trends).toBe('Summary of the news')
+      expect(result.news).toEqual([
+        {
+          title: 'Anthropic ships Claude Code 2.0',
+          url: 'https://news.example.com/claude-code',
+          publishedDate: '2026-10-02',
+          author: 'Jane Doe'
+        },
+        { title: 'No date', url: 'https://blog.example.com/agents' }
+      ])
+      expect(result.warnings).toEqual([expect.stringMatching(/^Exa Search: dropped item 3 \(url: /)])
+
+      warnSpy.mockRestore()
+    })
+
     it('should handle null Exa response', async () => {
       // Arrange
       const topic = 'Test Topic'
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({
           finalOutput: null
         })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
@@ -419,9 +687,9 @@ describe('Research Agent Unit Tests', () => {
       const topic = 'Test Topic'
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       await runResearchStage(topic)
@@ -429,164 +697,180 @@ describe('Research Agent Unit Tests', () => {
       // Assert
       const exaAgentCall = vi.mocked(Agent).mock.calls[1][0]
       expect(exaAgentCall.instructions).toContain('startPublishedDate')
-      expect(exaAgentCall.instructions).toContain('"type": "neural"')
-      expect(exaAgentCall.instructions).toContain('"category": "news"')
+      expect(exaAgentCall.instructions).toContain('type: "neural"')
+      expect(exaAgentCall.instructions).toContain('category: "news"')
     })
 
-    it('should include topic in Exa search query', async () => {
+    it('should search Exa with the planned query for the topic', async () => {
       // Arrange
       const topic = 'Quantum Computing'
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Quantum trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       await runResearchStage(topic)
 
       // Assert
       const exaAgentCall = vi.mocked(Agent).mock.calls[1][0]
-      expect(exaAgentCall.instructions).toContain(`"query": "${topic}"`)
+      expect(exaAgentCall.instructions).toContain(
+        'query: "Here is a recent news article about Quantum Computing:"'
+      )
     })
   })
 
-  describe('JSON Parsing with Fallback Mechanisms', () => {
-    it('should successfully parse clean JSON responses', async () => {
+  describe('Structured Output Validation', () => {
+    it('should keep valid items when others in the same list are invalid', async () => {
       // Arrange
       const topic = 'Test Topic'
-      const cleanVideos = [TestFixtureFactory.createVideoReference()]
-      const cleanTweets = [{ text: 'Clean tweet', likes: 1000 }]
-      
+      const video = TestFixtureFactory.createVideoReference()
+      const tweet = {
+        text: 'Valid tweet',
+        url: 'https://twitter.com/user/status/1',
+        likes: 150,
+        comments: 12,
+        views: 100
+      }
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
       vi.mocked(run)
         .mockResolvedValueOnce({
-          finalOutput: JSON.stringify(cleanVideos)
+          finalOutput: { videos: [{ ...video, title: '  ' }, video] }
         })
-        .mockResolvedValueOnce({ finalOutput: 'Clean trends' })
+        .mockResolvedValueOnce({ finalOutput: 'Trends' })
         .mockResolvedValueOnce({
-          finalOutput: JSON.stringify(cleanTweets)
+          finalOutput: { tweets: [tweet, { ...tweet, url: '' }] }
         })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
-      expect(result.videos).toEqual(cleanVideos)
-      expect(result.twitterInsights).toEqual(cleanTweets)
+      expect(result.videos).toEqual([video])
+      expect(result.twitterInsights).toEqual([tweet])
+      expect(result.warnings).toEqual([
+        expect.stringContaining('YouTube Scout: dropped item 1 (title:'),
+        expect.stringContaining('Twitter Scout: dropped item 2 (url:')
+      ])
+
+      warnSpy.mockRestore()
     })
 
-    it('should handle JSON wrapped in markdown code blocks', async () => {
+    it('should record a warning when a scout returns no structured output', async () => {
       // Arrange
       const topic = 'Test Topic'
       const videos = [TestFixtureFactory.createVideoReference()]
-      const tweets = [{ text: 'Markdown tweet', likes: 2000 }]
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
       
       vi.mocked(run)
-        .mockResolvedValueOnce({
-          finalOutput: `\`\`\`json\n${JSON.stringify(videos)}\n\`\`\``
-        })
-        .mockResolvedValueOnce({ finalOutput: 'Trends' })
-        .mockResolvedValueOnce({
-          finalOutput: `\`\`\`json\n${JSON.stringify(tweets)}\n\`\`\``
-        })
+        .mockResolvedValueOnce({ finalOutput: { videos } })
+        .mockResolvedValueOnce({ finalOutput: 'Valid trends data' })
+        .mockResolvedValueOnce({ finalOutput: undefined })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
       expect(result.videos).toEqual(videos)
-      expect(result.twitterInsights).toEqual(tweets)
+      expect(result.trends).toBe('Valid trends data')
+      expect(result.twitterInsights).toEqual([])
+      expect(result.warnings).toEqual(['Twitter Scout: no structured results returned'])
+
+      warnSpy.mockRestore()
     })
+  })
 
-    it('should use regex fallback when primary parsing fails', async () => {
+  describe('Error Handling and Edge Cases', () => {
+    it('should keep other sources when one agent fails', async () => {
       // Arrange
       const topic = 'Test Topic'
-      const videos = [TestFixtureFactory.createVideoReference()]
-      const tweets = [{ text: 'Fallback tweet', likes: 3000 }]
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
       
       vi.mocked(run)
-        .mockResolvedValueOnce({
-          finalOutput: `Invalid JSON prefix ${JSON.stringify(videos)} invalid suffix`
-        })
-        .mockResolvedValueOnce({ finalOutput: 'Trends' })
-        .mockResolvedValueOnce({
-          finalOutput: `Error occurred ${JSON.stringify(tweets)} end`
-        })
+        .mockRejectedValueOnce(new Error('YouTube agent failed'))
+        .mockResolvedValueOnce({ finalOutput: 'Trends data' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(topic)
 
       // Assert
-      expect(result.videos).toEqual(videos)
-      expect(result.twitterInsights).toEqual(tweets)
+      expect(result.videos).toEqual([])
+      expect(result.trends).toBe('Trends data')
+      expect(result.sources).toEqual({
+        youtube: { status: 'failed', reason: 'YouTube agent failed', durationMs: expect.any(Number) },
+        exa: { status: 'ok', durationMs: expect.any(Number) },
+        twitter: { status: 'empty', durationMs: expect.any(Number) }
+      })
+
+      errorSpy.mockRestore()
     })
 
-    it('should return empty arrays when all parsing methods fail', async () => {
+    it('should fail the stage only when every source fails', async () => {
       // Arrange
       const topic = 'Test Topic'
-      
-      vi.mocked(run)
-        .mockResolvedValueOnce({
-          finalOutput: 'Completely invalid response with no JSON'
-        })
-        .mockResolvedValueOnce({ finalOutput: 'Trends' })
-        .mockResolvedValueOnce({
-          finalOutput: 'Another invalid response'
-        })
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(createToolkitSession).mockRejectedValue(new Error('Composio is down'))
 
-      // Act
-      const result = await runResearchStage(topic)
+      // Act & Assert
+      await expect(runResearchStage(topic)).rejects.toThrow(
+        'All research sources failed (youtube: Composio is down; exa: Composio is down; twitter: Composio is down)'
+      )
 
-      // Assert
-      expect(result.videos).toEqual([])
-      expect(result.twitterInsights).toEqual([])
+      errorSpy.mockRestore()
     })
 
-    it('should handle mixed success and failure scenarios', async () => {
+    it('should mark a source failed when it exceeds its timeout', async () => {
       // Arrange
       const topic = 'Test Topic'
-      const videos = [TestFixtureFactory.createVideoReference()]
-      
-      vi.mocked(run)
-        .mockResolvedValueOnce({
-          finalOutput: JSON.stringify(videos) // Valid JSON
-        })
-        .mockResolvedValueOnce({ finalOutput: 'Valid trends data' })
-        .mockResolvedValueOnce({
-          finalOutput: 'Invalid Twitter response' // Invalid JSON
-        })
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      let youtubeSignal: AbortSignal | undefined
+      vi.mocked(run).mockImplementation(async (agent: any, _input: any, options: any) => {
+        if (agent.name === 'YouTube Scout') {
+          youtubeSignal = options.signal
+          return new Promise(() => {})
+        }
+        return agent.name === 'Trend Researcher'
+          ? { finalOutput: 'Trends data' }
+          : { finalOutput: { tweets: [] } }
+      })
 
       // Act
-      const result = await runResearchStage(topic)
+      const result = await runResearchStage(topic, { timeoutsMs: { youtube: 20 } })
 
       // Assert
-      expect(result.videos).toEqual(videos)
-      expect(result.trends).toBe('Valid trends data')
-      expect(result.twitterInsights).toEqual([])
+      expect(result.sources?.youtube).toEqual({
+        status: 'failed',
+        reason: 'timed out after 0.02s',
+        durationMs: expect.any(Number)
+      })
+      expect(result.sources?.exa?.status).toBe('ok')
+      expect(youtubeSignal?.aborted).toBe(true)
+
+      errorSpy.mockRestore()
+      vi.mocked(run).mockReset()
     })
-  })
 
-  describe('Error Handling and Edge Cases', () => {
-    it('should handle agent execution failures gracefully', async () => {
+    it('should handle session creation failures', async () => {
       // Arrange
       const topic = 'Test Topic'
-      
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(createToolkitSession).mockRejectedValueOnce(new Error('Session creation failed'))
       vi.mocked(run)
-        .mockRejectedValueOnce(new Error('YouTube agent failed'))
         .mockResolvedValueOnce({ finalOutput: 'Trends data' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
-      // Act & Assert
-      await expect(runResearchStage(topic)).rejects.toThrow('YouTube agent failed')
-    })
+      // Act
+      const result = await runResearchStage(topic)
 
-    it('should handle session creation failures', async () => {
-      // Arrange
-      const topic = 'Test Topic'
-      vi.mocked(createToolkitSession).mockRejectedValueOnce(new Error('Session creation failed'))
+      // Assert - The first session (YouTube) failed, the others still ran
+      expect(result.sources?.youtube).toMatchObject({ status: 'failed', reason: 'Session creation failed' })
+      expect(result.trends).toBe('Trends data')
+      expect(run).toHaveBeenCalledTimes(2)
 
-      // Act & Assert
-      await expect(runResearchStage(topic)).rejects.toThrow('Session creation failed')
+      errorSpy.mockRestore()
     })
 
     it('should handle very long topic strings', async () => {
@@ -594,9 +878,9 @@ describe('Research Agent Unit Tests', () => {
       const longTopic = 'A'.repeat(1000)
       
       vi.mocked(run)
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { videos: [] } })
         .mockResolvedValueOnce({ finalOutput: 'Trends for long topic' })
-        .mockResolvedValueOnce({ finalOutput: '[]' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
 
       // Act
       const result = await runResearchStage(longTopic)
@@ -628,4 +912,204 @@ describe('Research Agent Unit Tests', () => {
       })
     })
   })
+
+  describe('Source Registry', () => {
+    afterEach(() => {
+      unregisterResearchSource('hackernews')
+    })
+
+    it('should only run the enabled sources', async () => {
+      // Arrange
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Trends data' })
+
+      // Act
+      const result = await runResearchStage('Test Topic', { sources: ['exa'] })
+
+      // Assert
+      expect(run).toHaveBeenCalledTimes(1)
+      expect(createToolkitSession).toHaveBeenCalledWith('test-user-123', ['exa'], process.env.EXA_AUTH_CONFIG_ID)
+      expect(result.trends).toBe('Trends data')
+      expect(result.videos).toEqual([])
+      expect(Object.keys(result.sources ?? {})).toEqual(['exa'])
+    })
+
+    it('should merge items from registered sources under sourceItems', async () => {
+      // Arrange
+      const fetch = vi.fn().mockResolvedValue({
+        items: [{ title: 'Show HN: Agents', points: 420 }],
+        warnings: ['Hacker News: dropped item 2 (points: missing)']
+      })
+      registerResearchSource({ name: 'hackernews', label: 'Hacker News', timeoutMs: 1000, fetch })
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Trends data' })
+
+      // Act
+      const result = await runResearchStage('Test Topic', { sources: ['exa', 'hackernews'] })
+
+      // Assert
+      expect(fetch).toHaveBeenCalledWith('Test Topic', expect.objectContaining({ signal: expect.any(AbortSignal), session: undefined }))
+      expect(createToolkitSession).toHaveBeenCalledTimes(1)
+      expect(result.sourceItems).toEqual({ hackernews: [{ title: 'Show HN: Agents', points: 420 }] })
+      expect(result.sources?.hackernews?.status).toBe('ok')
+      expect(result.warnings).toEqual(['Hacker News: dropped item 2 (points: missing)'])
+
+      warnSpy.mockRestore()
+    })
+
+    it('should not register two sources with the same name', () => {
+      expect(() =>
+        registerResearchSource({ name: 'youtube', label: 'YouTube', timeoutMs: 1000, fetch: vi.fn() })
+      ).toThrow('Research source "youtube" is already registered')
+    })
+
+    it('should reject unknown source names', async () => {
+      await expect(runResearchStage('Test Topic', { sources: ['tiktok'] })).rejects.toThrow(
+        'Unknown research source(s): tiktok. Expected: youtube, exa, twitter'
+      )
+    })
+  })
+
+  describe('Research Cache', () => {
+    const cachedAt = '2026-10-19T10:00:00.000Z'
+    const makeCache = (outcome?: { items: unknown[]; summary?: string }) => ({
+      get: vi.fn().mockReturnValue(outcome && { cachedAt, outcome }),
+      set: vi.fn()
+    })
+
+    it('should serve cached sources without calling their agents', async () => {
+      // Arrange
+      const cache = makeCache({ items: [], summary: 'Cached trends' })
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      // Act
+      const result = await runResearchStage('Test Topic', { sources: ['exa'], cache })
+
+      // Assert
+      expect(run).not.toHaveBeenCalled()
+      expect(createToolkitSession).not.toHaveBeenCalled()
+      expect(cache.get).toHaveBeenCalledWith({ topic: 'Test Topic', source: 'exa', since: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/) })
+      expect(result.trends).toBe('Cached trends')
+      expect(result.sources?.exa).toEqual({ status: 'ok', durationMs: 0, cachedAt })
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Research cache hit: exa'))
+
+      logSpy.mockRestore()
+    })
+
+    it('should store fresh results on a miss or refresh', async () => {
+      // Arrange
+      const cache = makeCache({ items: [], summary: 'Cached trends' })
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Fresh trends' })
+
+      // Act
+      const result = await runResearchStage('Test Topic', { sources: ['exa'], cache, refresh: true })
+
+      // Assert
+      expect(cache.get).not.toHaveBeenCalled()
+      expect(result.trends).toBe('Fresh trends')
+      expect(cache.set).toHaveBeenCalledWith(
+        expect.objectContaining({ topic: 'Test Topic', source: 'exa' }),
+        { items: [], summary: 'Fresh trends', warnings: [] }
+      )
+    })
+
+    it('should not cache failed or empty sources', async () => {
+      // Arrange
+      const cache = makeCache()
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(run)
+        .mockRejectedValueOnce(new Error('YouTube agent failed'))
+        .mockResolvedValueOnce({ finalOutput: '' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
+
+      // Act
+      await runResearchStage('Test Topic', { cache })
+
+      // Assert
+      expect(cache.get).toHaveBeenCalledTimes(3)
+      expect(cache.set).not.toHaveBeenCalled()
+
+      errorSpy.mockRestore()
+    })
+  })
+
+  describe('Transcript Collection', () => {
+    const segments = [
+      { text: 'This app writes your emails.', start: 0, duration: 2 },
+      { text: 'Here is how it works in practice.', start: 2, duration: 2.5 }
+    ]
+    const mockScouts = (videos: VideoReference[]) =>
+      vi.mocked(run)
+        .mockResolvedValueOnce({ finalOutput: { videos } })
+        .mockResolvedValueOnce({ finalOutput: 'Trends data' })
+        .mockResolvedValueOnce({ finalOutput: { tweets: [] } })
+
+    it('should fetch transcripts for the top videos and compute pacing', async () => {
+      // Arrange
+      const videos = TestFixtureFactory.createVideoReferences(3, { title: 'OpenAI just shipped agents' })
+      const provider = { name: 'fake', fetchTranscript: vi.fn().mockResolvedValue(segments) }
+      mockScouts(videos)
+
+      // Act
+      const result = await runResearchStage('Test Topic', { transcriptProvider: provider })
+
+      // Assert
+      expect(provider.fetchTranscript).toHaveBeenCalledTimes(3)
+      expect(result.transcripts).toHaveLength(3)
+      expect(result.transcripts?.[0]).toMatchObject({
+        videoId: videos[0]!.videoId,
+        provider: 'fake',
+        segments,
+        pacing: { wordCount: 12, hook: 'This app writes your emails.', hookWords: 5, hookSeconds: 2 }
+      })
+      expect(result.rawTranscripts).toContain('This app writes your emails.')
+      expect(result.sources?.transcripts?.status).toBe('ok')
+      expect(result.hookPatterns).toEqual([
+        { pattern: 'just-did', count: 3, examples: videos.map((video) => video.title) }
+      ])
+    })
+
+    it('should skip videos without a transcript and record a warning', async () => {
+      // Arrange
+      const videos = TestFixtureFactory.createVideoReferences(2)
+      const provider = {
+        name: 'fake',
+        fetchTranscript: vi.fn().mockResolvedValueOnce(segments).mockResolvedValueOnce(undefined)
+      }
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      mockScouts(videos)
+
+      // Act
+      const result = await runResearchStage('Test Topic', { transcriptProvider: provider })
+
+      // Assert
+      expect(result.transcripts).toHaveLength(1)
+      expect(result.warnings).toEqual([`Transcripts: none available for ${videos[1]!.videoId}`])
+
+      warnSpy.mockRestore()
+    })
+
+    it('should mark transcripts failed without failing research', async () => {
+      // Arrange
+      const videos = TestFixtureFactory.createVideoReferences(1)
+      const provider = {
+        name: 'fake',
+        fetchTranscript: vi.fn().mockRejectedValue(new Error('No active connection found for apify'))
+      }
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockScouts(videos)
+
+      // Act
+      const result = await runResearchStage('Test Topic', { transcriptProvider: provider })
+
+      // Assert
+      expect(result.videos).toHaveLength(1)
+      expect(result.transcripts).toEqual([])
+      expect(result.sources?.transcripts).toMatchObject({
+        status: 'failed',
+        reason: 'No active connection found for apify'
+      })
+
+      errorSpy.mockRestore()
+    })
+  })
 })
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { runScriptingStage } from '../../../src/agents/scripting.js'
+import { runScriptingStage, runScriptVariantsStage } from '../../../src/agents/scripting.js'
+import { DEFAULT_STYLE_PROFILE } from '../../../src/config/style.js'
+import { registerResearchSource, unregisterResearchSource } from '../../../src/research/registry.js'
 import { TestFixtureFactory } from '../../fixtures/TestFixtureFactory.js'
 import type { AgentState } from '../../../src/state/state.js'
 
@@ -9,6 +11,7 @@ vi.mock('@openai/agents', () => ({
     this.name = config.name
     this.instructions = config.instructions
     this.model = config.model
+    this.outputType = config.outputType
   }),
   run: vi.fn()
 }))
@@ -60,11 +63,11 @@ describe('Scripting Agent Unit Tests', () => {
           videos: [
             TestFixtureFactory.createVideoReference({ 
               title: 'AI Revolution Breaks Internet', 
-              viewCount: '5000000' 
+              viewCount: 5000000
             }),
             TestFixtureFactory.createVideoReference({ 
               title: 'Tech Giants Announce Major AI Update', 
-              viewCount: '3000000' 
+              viewCount: 3000000
             })
           ]
         })
@@ -85,6 +88,44 @@ describe('Scripting Agent Unit Tests', () => {
       expect(runCall).toContain('Views: 3000000')
     })
 
+    it('should rank hooks by engagement rate and show their statistics', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting', {
+        researchData: TestFixtureFactory.createResearchData({
+          videos: [
+            TestFixtureFactory.createVideoReference({ title: 'No stats', viewCount: 9000000 }),
+            TestFixtureFactory.createVideoReference({
+              title: 'Most views',
+              viewCount: 1000000,
+              likeCount: 10000,
+              commentCount: 0
+            }),
+            TestFixtureFactory.createVideoReference({
+              title: 'Best engagement',
+              viewCount: 100000,
+              likeCount: 7500,
+              commentCount: 500,
+              durationSeconds: 42,
+              channelTitle: 'AI Daily',
+              publishedAt: '2026-10-01'
+            })
+          ]
+        })
+      })
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Generated script content' })
+
+      // Act
+      await runScriptingStage(state)
+
+      // Assert
+      const runCall: string = vi.mocked(run).mock.calls[0][1]
+      expect(runCall).toContain(
+        '- Viral Hook/Title: "Best engagement" (Views: 100000, Likes: 7500, Comments: 500, Engagement: 8.0%, Length: 42s, Channel: AI Daily, Published: 2026-10-01)'
+      )
+      expect(runCall.indexOf('Best engagement')).toBeLessThan(runCall.indexOf('Most views'))
+      expect(runCall.indexOf('Most views')).toBeLessThan(runCall.indexOf('No stats'))
+    })
+
     it('should include Twitter context in prompt when insights are available', async () => {
       // Arrange
       const state = TestFixtureFactory.createAgentStateForStage('scripting', {
@@ -145,6 +186,145 @@ describe('Scripting Agent Unit Tests', () => {
       expect(runCall).toContain('Pacing reference: Fast-paced delivery with emphasis on numbers and facts')
     })
 
+    it('should use measured transcript pacing when available', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting', {
+        researchData: TestFixtureFactory.createResearchData({
+          rawTranscripts: 'Raw transcript text',
+          transcripts: [
+            {
+              videoId: 'abc123',
+              title: 'Top Short',
+              provider: 'file',
+              segments: [{ text: 'Stop scrolling.', start: 0, duration: 1 }],
+              pacing: {
+                durationSeconds: 30,
+                wordCount: 90,
+                wordsPerSecond: 3,
+                hook: 'Stop scrolling.',
+                hookWords: 2,
+                hookSeconds: 1
+              }
+            }
+          ]
+        })
+      })
+
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: 'Generated script content'
+      })
+
+      // Act
+      await runScriptingStage(state)
+
+      // Assert
+      const runCall = vi.mocked(run).mock.calls[0][1]
+      expect(runCall).toContain('Average pace: 3 words per second')
+      expect(runCall).toContain('hook "Stop scrolling."')
+      expect(runCall).not.toContain('Raw transcript text')
+    })
+
+    it('should name the chosen hook pattern alongside the analysed ones', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting', {
+        settings: { hookPattern: 'contrarian' },
+        researchData: TestFixtureFactory.createResearchData({
+          hookPatterns: [{ pattern: 'just-did', count: 2, examples: ['OpenAI just killed Zapier'] }]
+        })
+      })
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Generated script content' })
+
+      // Act
+      await runScriptingStage(state)
+
+      // Assert
+      const runCall = vi.mocked(run).mock.calls[0][1]
+      expect(runCall).toContain('[HOOK PATTERNS]')
+      expect(runCall).toContain('- just-did (2): "OpenAI just killed Zapier"')
+      expect(runCall).toContain('Open with a "contrarian" hook.')
+    })
+
+    it('should render items from registered sources with their formatter', async () => {
+      // Arrange
+      registerResearchSource({
+        name: 'hackernews',
+        label: 'Hacker News',
+        timeoutMs: 1000,
+        fetch: vi.fn(),
+        formatItems: (items: any[]) => items.map((item) => `- ${item.title} (${item.points} points)`).join('\n')
+      })
+      const state = TestFixtureFactory.createAgentStateForStage('scripting', {
+        researchData: TestFixtureFactory.createResearchData({
+          sourceItems: { hackernews: [{ title: 'Show HN: Agents', points: 420 }], unknown: [{ title: 'x' }] }
+        })
+      })
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Generated script content' })
+
+      // Act
+      await runScriptingStage(state)
+
+      // Assert
+      const runCall = vi.mocked(run).mock.calls[0][1]
+      expect(runCall).toContain('[HACKER NEWS]')
+      expect(runCall).toContain('- Show HN: Agents (420 points)')
+
+      unregisterResearchSource('hackernews')
+    })
+
+    it('should list news articles with their dates and URLs', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting', {
+        researchData: TestFixtureFactory.createResearchData({
+          news: [
+            {
+              title: 'Anthropic ships Claude Code 2.0',
+              url: 'https://news.example.com/claude-code',
+              publishedDate: '2026-10-02',
+              author: 'Jane Doe'
+            },
+            { title: 'Agents everywhere', url: 'https://blog.example.com/agents' }
+          ]
+        })
+      })
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Generated script content' })
+
+      // Act
+      await runScriptingStage(state)
+
+      // Assert
+      const runCall = vi.mocked(run).mock.calls[0][1]
+      expect(runCall).toContain('[NEWS ARTICLES]')
+      expect(runCall).toContain('- "Anthropic ships Claude Code 2.0" (Jane Doe, 2026-10-02) https://news.example.com/claude-code')
+      expect(runCall).toContain('- "Agents everywhere" https://blog.example.com/agents')
+    })
+
+    it('should list already covered stories and hooks only when given', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting')
+      vi.mocked(run)
+        .mockResolvedValueOnce({ finalOutput: 'Generated script content' })
+        .mockResolvedValueOnce({ finalOutput: 'Generated script content' })
+      const covered = {
+        runId: 'run-1',
+        producedAt: '2026-10-01T00:00:00.000Z',
+        topic: 'Anthropic funding',
+        story: 'Anthropic raises $2 billion',
+        hook: 'Anthropic just raised $2 billion.',
+        script: 'Anthropic just raised $2 billion.',
+        sources: []
+      }
+
+      // Act
+      await runScriptingStage(state, { coveredVideos: [covered] })
+      await runScriptingStage(state)
+
+      // Assert
+      const [withHistory, withoutHistory] = vi.mocked(run).mock.calls.map((call: any[]) => call[1])
+      expect(withHistory).toContain('[ALREADY COVERED]')
+      expect(withHistory).toContain('- Story: "Anthropic raises $2 billion" | Hook: "Anthropic just raised $2 billion."')
+      expect(withoutHistory).not.toContain('[ALREADY COVERED]')
+    })
+
     it('should handle missing research data gracefully', async () => {
       // Arrange
       const state: AgentState = {
@@ -178,10 +358,11 @@ describe('Scripting Agent Unit Tests', () => {
       expect(result).toBe('Generated script with empty data')
       
       const runCall = vi.mocked(run).mock.calls[0][1]
-      // Empty arrays are truthy, so they don't trigger the fallback messages
-      // Instead, they result in empty context sections
+      // Failed or empty sources fall back to explicit "no data" notes
       expect(runCall).toContain('[VIRAL HOOKS FROM YOUTUBE]')
+      expect(runCall).toContain('No YouTube data available.')
       expect(runCall).toContain('[PUBLIC SENTIMENT FROM TWITTER]')
+      expect(runCall).toContain('No Twitter data available.')
     })
   })
 
@@ -205,6 +386,55 @@ describe('Scripting Agent Unit Tests', () => {
       expect(runCall).toContain('Hit follow for more!')
     })
 
+    it('should scale the word budget to a per-run target length', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting', {
+        settings: { targetSeconds: 45 }
+      })
+
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: 'Generated script content'
+      })
+
+      // Act
+      await runScriptingStage(state)
+
+      // Assert
+      const runCall = vi.mocked(run).mock.calls[0][1]
+      expect(runCall).toContain('Approximately 45 seconds spoken aloud')
+      expect(runCall).toContain('115-125 words')
+    })
+
+    it('should write to the given style profile', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting')
+      const style = {
+        ...DEFAULT_STYLE_PROFILE,
+        persona: 'You explain AI news calmly.',
+        readingLevel: '8th-grade',
+        bannedPhrases: ['insane'],
+        callToAction: 'Follow for the weekly recap.',
+        targetSeconds: 45,
+        structure: ['Sentence 1: The news in one line.'],
+        rules: ['Address the viewer as "you".']
+      }
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: 'Generated script content' })
+
+      // Act
+      await runScriptingStage(state, { style })
+
+      // Assert
+      expect(vi.mocked(Agent).mock.calls[0][0].instructions).toBe('You explain AI news calmly.')
+      const runCall = vi.mocked(run).mock.calls[0][1]
+      expect(runCall).toContain('TONE: 8th-grade reading level.')
+      expect(runCall).toContain('BANNED WORDS: Do not use "insane".')
+      expect(runCall).toContain('115-125 words')
+      expect(runCall).toContain('6. Address the viewer as "you".')
+      expect(runCall).toContain('- Sentence 1: The news in one line.')
+      expect(runCall).toContain('Final Sentence: EXACTLY "Follow for the weekly recap."')
+      expect(runCall).not.toContain('game-changer')
+    })
+
     it('should include banned words list in guidelines', async () => {
       // Arrange
       const state = TestFixtureFactory.createAgentStateForStage('scripting')
@@ -696,4 +926,88 @@ describe('Scripting Agent Unit Tests', () => {
       expect(result).toBe('Script with Unicode content')
     })
   })
+  describe('Script Variants', () => {
+    const onTarget = (hook: string) => `${hook} ${Array.from({ length: 70 }, () => 'word').join(' ')}. Hit follow for more!`
+
+    it('should write the variants in one pass and rank them by style score', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting')
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: {
+          variants: [
+            { story: 'Zapier', hookPattern: null, script: 'Too short and no call to action.' },
+            { story: 'Cursor', hookPattern: 'question', script: '```text\n' + onTarget('Is Cursor worth it?') + '```' },
+            { story: 'Extra', hookPattern: 'number', script: onTarget('3 things.') }
+          ]
+        }
+      })
+
+      // Act
+      const variants = await runScriptVariantsStage(state, 2)
+
+      // Assert
+      expect(run).toHaveBeenCalledTimes(1)
+      expect(vi.mocked(Agent).mock.calls[0][0].outputType).toBeDefined()
+      expect(vi.mocked(run).mock.calls[0][1]).toContain('Write 2 different scripts')
+      expect(variants).toHaveLength(2)
+      expect(variants[0]).toEqual({
+        script: onTarget('Is Cursor worth it?'),
+        story: 'Cursor',
+        hookPattern: 'question',
+        score: 100,
+        violations: []
+      })
+      expect(variants[1]).toMatchObject({ story: 'Zapier', score: 50 })
+      expect(variants[1]).not.toHaveProperty('hookPattern')
+    })
+
+    it('should vary the hook pattern only when none is chosen', async () => {
+      // Arrange
+      const hookPatterns = [{ pattern: 'just-did' as const, count: 2, examples: ['OpenAI just killed Zapier'] }]
+      const open = TestFixtureFactory.createAgentStateForStage('scripting', {
+        researchData: TestFixtureFactory.createResearchData({ hookPatterns })
+      })
+      const chosen = TestFixtureFactory.createAgentStateForStage('scripting', {
+        settings: { hookPattern: 'question' },
+        researchData: TestFixtureFactory.createResearchData({ hookPatterns })
+      })
+      const output = { finalOutput: { variants: [{ story: 'Cursor', hookPattern: null, script: onTarget('Cursor shipped.') }] } }
+      vi.mocked(run).mockResolvedValueOnce(output).mockResolvedValueOnce(output)
+
+      // Act
+      await runScriptVariantsStage(open, 2)
+      await runScriptVariantsStage(chosen, 2)
+
+      // Assert
+      const [openPrompt, chosenPrompt] = vi.mocked(run).mock.calls.map((call: any[]) => call[1])
+      expect(openPrompt).not.toContain('Open with a "just-did" hook')
+      expect(openPrompt).toContain('with a different hook pattern')
+      expect(chosenPrompt).toContain('Open with a "question" hook.')
+      expect(chosenPrompt).toContain('Every script opens with a "question" hook.')
+      expect(chosenPrompt).not.toContain('with a different hook pattern')
+    })
+
+    it('should pass reviewer feedback to every variant', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting', { feedback: 'Less hype' })
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: { variants: [{ story: 'Cursor', hookPattern: null, script: onTarget('Cursor shipped.') }] }
+      })
+
+      // Act
+      await runScriptVariantsStage(state, 3)
+
+      // Assert
+      expect(vi.mocked(run).mock.calls[0][1]).toContain('Feedback: "Less hype"')
+    })
+
+    it('should fail when no variant comes back', async () => {
+      // Arrange
+      const state = TestFixtureFactory.createAgentStateForStage('scripting')
+      vi.mocked(run).mockResolvedValueOnce({ finalOutput: { variants: [] } })
+
+      // Act & Assert
+      await expect(runScriptVariantsStage(state, 2)).rejects.toThrow('Viral Scriptwriter failed to generate a response.')
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  formatTopicSuggestions,
+  runTopicSuggestionStage
+} from '../../../src/agents/topic_ideas.js'
+import { TestFixtureFactory } from '../../fixtures/TestFixtureFactory.js'
+
+// Mock the OpenAI agents module
+vi.mock('@openai/agents', () => ({
+  Agent: vi.fn(function(this: any, config: any) {
+    this.name = config.name
+    this.instructions = config.instructions
+    this.outputType = config.outputType
+    this.model = config.model
+  }),
+  run: vi.fn()
+}))
+
+describe('Topic Suggestions', () => {
+  let run: any
+  let Agent: any
+
+  const research = TestFixtureFactory.createResearchData({
+    videos: TestFixtureFactory.createVideoReferences(1),
+    news: [
+      { title: 'Cursor ships background agents', url: 'https://news.example.com/cursor' }
+    ]
+  })
+
+  beforeEach(async () => {
+    ;({ run, Agent } = await import('@openai/agents'))
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  describe('runTopicSuggestionStage', () => {
+    it('should rank topics and attach their evidence', async () => {
+      // Arrange
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: {
+          topics: [
+            { topic: ' Cursor background agents ', reason: 'Fresh launch', sourceIds: ['n1', 'T1'] },
+            { topic: 'cursor background agents', reason: 'Duplicate', sourceIds: ['N1'] },
+            { topic: 'Vibe coding burnout', reason: 'No evidence', sourceIds: ['X9'] },
+            { topic: 'Top AI shorts', reason: 'Views', sourceIds: ['V1'] }
+          ]
+        }
+      })
+
+      // Act
+      const suggestions = await runTopicSuggestionStage('AI developer tools', research)
+
+      // Assert
+      expect(suggestions.map((s) => [s.rank, s.topic])).toEqual([
+        [1, 'Cursor background agents'],
+        [2, 'Top AI shorts']
+      ])
+      expect(suggestions[0]?.evidence.map((s) => s.id)).toEqual(['N1', 'T1'])
+      expect(vi.mocked(Agent).mock.calls[0][0].instructions).toContain('"AI developer tools"')
+      expect(console.warn).toHaveBeenCalledWith('⚠️ Dropped 1 topic(s) without evidence')
+    })
+
+    it('should stop at the requested count', async () => {
+      // Arrange
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: {
+          topics: [
+            { topic: 'One', reason: 'r', sourceIds: ['N1'] },
+            { topic: 'Two', reason: 'r', sourceIds: ['V1'] }
+          ]
+        }
+      })
+
+      // Act
+      const suggestions = await runTopicSuggestionStage('AI', research, 1)
+
+      // Assert
+      expect(suggestions.map((s) => s.topic)).toEqual(['One'])
+    })
+
+    it('should fail without research to base topics on', async () => {
+      // Arrange
+      const empty = TestFixtureFactory.createResearchData({ videos: [], news: [], twitterInsights: [] })
+
+      // Act & Assert
+      await expect(runTopicSuggestionStage('AI', empty)).rejects.toThrow(
+        'No research found for "AI" to suggest topics from'
+      )
+      expect(run).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('formatTopicSuggestions', () => {
+    it('should number topics with their reason and sources', () => {
+      // Act
+      const text = formatTopicSuggestions([
+        {
+          rank: 1,
+          topic: 'Cursor background agents',
+          reason: 'Fresh launch',
+          evidence: [{ id: 'N1', type: 'news', title: 'Cursor ships background agents', url: 'https://news.example.com/cursor' }]
+        }
+      ])
+
+      // Assert
+      expect(text).toBe(
+        '1. Cursor background agents\n     Fresh launch\n     [N1] Cursor ships background agents (https://news.example.com/cursor)'
+      )
+    })
+  })
+})
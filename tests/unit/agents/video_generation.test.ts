@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { runVideoGenerationStage } from '../../../src/agents/video_generation.js'
+import { DEFAULT_VIDEO_CONFIG, type VideoConfig } from '../../../src/config/video.js'
 import { mockComposioClient } from '../../mocks/MockComposioClient.js'
 import * as fs from 'fs'
 import * as https from 'https'
@@ -285,6 +286,51 @@ describe('Video Generation Agent Unit Tests', () => {
         value: '#FFFFFF'
       })
     })
+
+    it('should build the payload from a custom video config', async () => {
+      // Arrange
+      const audioUrl = 'https://api.elevenlabs.io/v1/audio/config-test.mp3'
+      const config: VideoConfig = {
+        ...DEFAULT_VIDEO_CONFIG,
+        avatarId: 'custom-avatar',
+        avatarStyle: 'closeUp',
+        background: { type: 'video', url: 'https://example.com/bg.mp4', playStyle: 'once' },
+        aspectRatio: '16:9',
+        resolution: '1080p',
+        test: true
+      }
+
+      vi.mocked(mockComposioClient.tools.proxyExecute)
+        .mockResolvedValueOnce({ data: { data: { video_id: 'config-test-xyz' } } })
+        .mockResolvedValueOnce({
+          data: {
+            data: {
+              status: 'completed',
+              video_url: 'https://heygen.com/share/config-test.mp4'
+            }
+          }
+        })
+
+      setupMockDownload()
+
+      // Act
+      await runVideoGenerationStage(audioUrl, { config })
+
+      // Assert
+      const generateCall = vi.mocked(mockComposioClient.tools.proxyExecute).mock.calls[0][0]
+      expect(generateCall.body.test).toBe(true)
+      expect(generateCall.body.dimension).toEqual({ width: 1920, height: 1080 })
+      expect(generateCall.body.video_inputs[0].character).toEqual({
+        type: 'avatar',
+        avatar_id: 'custom-avatar',
+        avatar_style: 'closeUp'
+      })
+      expect(generateCall.body.video_inputs[0].background).toEqual({
+        type: 'video',
+        url: 'https://example.com/bg.mp4',
+        play_style: 'once'
+      })
+    })
   })
 
   describe('Polling Mechanism and State Transitions', () => {
@@ -530,6 +576,78 @@ describe('Video Generation Agent Unit Tests', () => {
     })
   })
 
+  describe('Resuming an Existing HeyGen Job', () => {
+    it('should re-poll an existing video id without starting a new render', async () => {
+      // Arrange
+      const audioUrl = 'https://api.elevenlabs.io/v1/audio/resume.mp3'
+      vi.mocked(mockComposioClient.tools.proxyExecute).mockResolvedValueOnce({
+        data: {
+          data: {
+            status: 'completed',
+            video_url: 'https://heygen.com/share/resumed.mp4'
+          }
+        }
+      })
+      setupMockDownload()
+
+      // Act
+      const result = await runVideoGenerationStage(audioUrl, { videoId: 'existing-video-789' })
+
+      // Assert - Only the status check, no generate call
+      expect(mockComposioClient.tools.proxyExecute).toHaveBeenCalledTimes(1)
+      expect(mockComposioClient.tools.proxyExecute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpoint: '/v1/video_status.get',
+          parameters: [{ name: 'video_id', value: 'existing-video-789', in: 'query' }]
+        })
+      )
+      expect(result.videoUrl).toBe('https://heygen.com/share/resumed.mp4')
+    })
+
+    it('should report a failed render so callers can drop its id', async () => {
+      // Arrange
+      const onVideoFailed = vi.fn()
+      vi.mocked(mockComposioClient.tools.proxyExecute).mockResolvedValueOnce({
+        data: { data: { status: 'failed', error: { message: 'Bad audio' } } }
+      })
+
+      // Act & Assert
+      await expect(
+        runVideoGenerationStage('https://cdn.example.com/voice.mp3', {
+          videoId: 'failed-video-456',
+          onVideoFailed
+        })
+      ).rejects.toThrow('Generation Failed')
+      expect(onVideoFailed).toHaveBeenCalledWith('failed-video-456')
+    })
+
+    it('should report the new video id before polling starts', async () => {
+      // Arrange
+      const audioUrl = 'https://api.elevenlabs.io/v1/audio/checkpoint.mp3'
+      const onVideoStarted = vi.fn()
+      vi.mocked(mockComposioClient.tools.proxyExecute)
+        .mockResolvedValueOnce({ data: { data: { video_id: 'new-video-123' } } })
+        .mockResolvedValueOnce({
+          data: {
+            data: {
+              status: 'completed',
+              video_url: 'https://heygen.com/share/checkpoint.mp4'
+            }
+          }
+        })
+      setupMockDownload()
+
+      // Act
+      await runVideoGenerationStage(audioUrl, { onVideoStarted, outputDir: '/runs/run-1' })
+
+      // Assert
+      expect(onVideoStarted).toHaveBeenCalledWith('new-video-123')
+      expect(fs.createWriteStream).toHaveBeenCalledWith(
+        expect.stringContaining('/runs/run-1/heygen_video_')
+      )
+    })
+  })
+
   describe('Video Generation Workflow from Start to Completion', () => {
     it('should complete full workflow successfully', async () => {
       // Arrange
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { loadBatchFile, parseCsvLine } from '../../../src/batch/input.js'
+
+describe('Batch Input Parsing', () => {
+  let dir: string
+
+  const writeFile = (name: string, content: string) => {
+    const filePath = path.join(dir, name)
+    fs.writeFileSync(filePath, content)
+    return filePath
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('CSV Files', () => {
+    it('should split quoted fields with commas and escaped quotes', () => {
+      expect(parseCsvLine('"AI, agents","say ""hi""",plain')).toEqual([
+        'AI, agents',
+        'say "hi"',
+        'plain'
+      ])
+    })
+
+    it('should read topics and treat empty cells as no override', () => {
+      // Arrange
+      const filePath = writeFile('topics.csv', [
+        'topic,avatarId,voiceId,targetSeconds',
+        'Claude Code in 2026,avatar-1,,45',
+        '"Voice agents, explained",,voice-2,'
+      ].join('\n'))
+
+      // Act
+      const items = loadBatchFile(filePath)
+
+      // Assert
+      expect(items).toEqual([
+        { topic: 'Claude Code in 2026', settings: { targetSeconds: 45, video: { avatarId: 'avatar-1' } } },
+        { topic: 'Voice agents, explained', settings: { audio: { voiceId: 'voice-2' } } }
+      ])
+    })
+  })
+
+  describe('JSONL Files', () => {
+    it('should read one topic per line and skip blank lines', () => {
+      // Arrange
+      const filePath = writeFile('topics.jsonl', [
+        '{"topic": "MCP servers"}',
+        '',
+        '{"topic": "Agent SDKs", "voiceId": "voice-9", "audioProfile": "calm", "targetSeconds": "60"}'
+      ].join('\n'))
+
+      // Act
+      const items = loadBatchFile(filePath)
+
+      // Assert
+      expect(items).toHaveLength(2)
+      expect(items[1]).toEqual({
+        topic: 'Agent SDKs',
+        settings: { audioProfile: 'calm', targetSeconds: 60, audio: { voiceId: 'voice-9' } }
+      })
+    })
+
+    it('should read research sources as a list or a separated string', () => {
+      // Arrange
+      const filePath = writeFile('topics.jsonl', [
+        '{"topic": "MCP servers", "sources": ["youtube", "Exa"]}',
+        '{"topic": "Agent SDKs", "sources": "twitter;exa"}',
+        '{"topic": "Empty", "sources": []}'
+      ].join('\n'))
+
+      // Act & Assert
+      expect(() => loadBatchFile(filePath)).toThrow(/item 3: sources: sources must name at least one source/)
+
+      fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf-8').split('\n').slice(0, 2).join('\n'))
+      expect(loadBatchFile(filePath).map((item) => item.settings.researchSources)).toEqual([
+        ['youtube', 'exa'],
+        ['twitter', 'exa']
+      ])
+    })
+
+    it('should read a hook pattern and reject unknown ones', () => {
+      // Arrange
+      const filePath = writeFile('topics.csv', 'topic,hookPattern\nMCP servers,question\nAgent SDKs,clickbait')
+
+      // Act & Assert
+      expect(() => loadBatchFile(filePath)).toThrow(/item 2: hookPattern/)
+
+      fs.writeFileSync(filePath, 'topic,hookPattern\nMCP servers,question')
+      expect(loadBatchFile(filePath)[0]?.settings.hookPattern).toBe('question')
+    })
+
+    it('should report the line number of malformed JSON', () => {
+      const filePath = writeFile('topics.jsonl', '{"topic": "ok"}\n{broken')
+      expect(() => loadBatchFile(filePath)).toThrow('Invalid JSON on line 2')
+    })
+  })
+
+  describe('Validation', () => {
+    it('should list every invalid row in one error', () => {
+      // Arrange
+      const filePath = writeFile('topics.jsonl', [
+        '{"topic": ""}',
+        '{"topic": "ok", "targetSeconds": 5}'
+      ].join('\n'))
+
+      // Act & Assert
+      expect(() => loadBatchFile(filePath)).toThrow(/item 1: topic.*\n.*item 2: targetSeconds/)
+    })
+
+    it('should reject unsupported extensions and empty files', () => {
+      expect(() => loadBatchFile(writeFile('topics.txt', 'x'))).toThrow('Unsupported batch file type')
+      expect(() => loadBatchFile(writeFile('empty.csv', 'topic\n'))).toThrow('contains no topics')
+    })
+
+    it('should fail clearly when the file does not exist', () => {
+      expect(() => loadBatchFile(path.join(dir, 'missing.csv'))).toThrow('Batch file not found')
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { mapWithConcurrency, runBatch, writeBatchReport } from '../../../src/batch/runner.js'
+import { defineStage } from '../../../src/pipeline/pipeline.js'
+import { loadCheckpoint } from '../../../src/state/store.js'
+
+describe('Batch Runner', () => {
+  let runsDir: string
+
+  const videoStage = defineStage({
+    name: 'video',
+    description: 'Fake render',
+    inputs: ['topic'],
+    outputs: ['videoUrl'],
+    run: vi.fn(async (state) => {
+      if (state.topic === 'broken topic') {
+        throw new Error('HeyGen quota exceeded')
+      }
+      return { videoUrl: `https://heygen.com/share/${encodeURIComponent(state.topic)}.mp4` }
+    })
+  })
+
+  beforeEach(() => {
+    runsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-runs-'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(runsDir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  describe('Concurrency Control', () => {
+    it('should never exceed the concurrency limit and keep result order', async () => {
+      // Arrange
+      let inFlight = 0
+      let maxInFlight = 0
+      const worker = async (n: number) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setImmediate(resolve))
+        inFlight--
+        return n * 2
+      }
+
+      // Act
+      const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, worker)
+
+      // Assert
+      expect(results).toEqual([2, 4, 6, 8, 10])
+      expect(maxInFlight).toBe(2)
+    })
+  })
+
+  describe('Batch Execution and Reporting', () => {
+    it('should run every topic and record failures without stopping', async () => {
+      // Arrange
+      const items = [
+        { topic: 'MCP servers', settings: { audio: { voiceId: 'voice-1' } } },
+        { topic: 'broken topic', settings: {} },
+        { topic: 'Agent SDKs', settings: {} }
+      ]
+
+      // Act
+      const report = await runBatch([videoStage], items, {
+        runsDir,
+        concurrency: 2,
+        autoApprove: true
+      })
+
+      // Assert
+      expect(report.total).toBe(3)
+      expect(report.succeeded).toBe(2)
+      expect(report.failed).toBe(1)
+      expect(report.items.map((i) => i.status)).toEqual(['succeeded', 'failed', 'succeeded'])
+      expect(report.items[0]!.artifacts.videoUrl).toBe('https://heygen.com/share/MCP%20servers.mp4')
+      expect(report.items[1]!.error).toContain('HeyGen quota exceeded')
+    })
+
+    it('should give each topic its own run with its overrides', async () => {
+      // Act
+      const report = await runBatch(
+        [videoStage],
+        [{ topic: 'MCP servers', settings: { video: { avatarId: 'avatar-7' } } }],
+        { runsDir, concurrency: 1, autoApprove: true }
+      )
+
+      // Assert
+      const checkpoint = loadCheckpoint(report.items[0]!.runId, runsDir)
+      expect(checkpoint.state.settings).toEqual({ video: { avatarId: 'avatar-7' } })
+      expect(checkpoint.completedStages).toEqual(['video'])
+    })
+
+    it('should write the report as JSON next to the runs', async () => {
+      // Arrange
+      const report = await runBatch([videoStage], [{ topic: 'MCP servers', settings: {} }], {
+        runsDir,
+        concurrency: 1,
+        autoApprove: true
+      })
+
+      // Act
+      const reportPath = writeBatchReport(report, runsDir)
+
+      // Assert
+      expect(path.basename(reportPath)).toMatch(/^batch-\d{8}T\d{6}\.json$/)
+      expect(JSON.parse(fs.readFileSync(reportPath, 'utf-8')).succeeded).toBe(1)
+    })
+  })
+})
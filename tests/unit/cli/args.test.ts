@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest'
+import { parseCliArgs as parse, CliUsageError } from '../../../src/cli/args.js'
+
+const STAGES = ['research', 'scripting', 'audio', 'video']
+const parseCliArgs = (argv: string[]) => parse(argv, STAGES)
+
+describe('CLI Argument Parsing', () => {
+  describe('Defaults and Flags', () => {
+    it('should return interactive defaults when no arguments are given', () => {
+      // Act
+      const options = parseCliArgs([])
+
+      // Assert
+      expect(options).toEqual({
+        command: 'run',
+        runId: undefined,
+        batchFile: undefined,
+        concurrency: 1,
+        topic: undefined,
+        autoApprove: false,
+        refreshResearch: false,
+        fromStage: undefined,
+        outputDir: 'runs',
+        json: false,
+        help: false
+      })
+    })
+
+    it('should parse long and short options', () => {
+      // Act
+      const options = parseCliArgs([
+        '--topic', '  AI agents  ',
+        '-y',
+        '-o', './out',
+        '--json'
+      ])
+
+      // Assert
+      expect(options.topic).toBe('AI agents')
+      expect(options.autoApprove).toBe(true)
+      expect(options.outputDir).toBe('./out')
+      expect(options.json).toBe(true)
+    })
+
+    it('should parse --refresh-research for runs, resumes and batches', () => {
+      expect(parseCliArgs(['--refresh-research']).refreshResearch).toBe(true)
+      expect(parseCliArgs(['resume', 'abc', '--refresh-research']).refreshResearch).toBe(true)
+      expect(parseCliArgs(['batch', 'a.csv', '--refresh-research']).refreshResearch).toBe(true)
+    })
+
+    it('should accept an explicit run command', () => {
+      // Act
+      const options = parseCliArgs(['run', '-t', 'AI agents'])
+
+      // Assert
+      expect(options.command).toBe('run')
+      expect(options.topic).toBe('AI agents')
+      expect(() => parseCliArgs(['run', 'extra'])).toThrow('Unexpected arguments: extra')
+    })
+
+    it('should parse the resume command with a run id', () => {
+      // Act
+      const options = parseCliArgs(['resume', '20261019-181500-abc123', '--from-stage', 'audio'])
+
+      // Assert
+      expect(options.command).toBe('resume')
+      expect(options.runId).toBe('20261019-181500-abc123')
+      expect(options.fromStage).toBe('audio')
+    })
+  })
+
+  describe('Batch Command', () => {
+    it('should parse the batch file and concurrency', () => {
+      // Act
+      const options = parseCliArgs(['batch', 'topics.csv', '-c', '3', '--auto-approve'])
+
+      // Assert
+      expect(options.command).toBe('batch')
+      expect(options.batchFile).toBe('topics.csv')
+      expect(options.concurrency).toBe(3)
+    })
+
+    it('should require a file and a valid concurrency', () => {
+      expect(() => parseCliArgs(['batch'])).toThrow('batch requires a .csv or .jsonl file')
+      expect(() => parseCliArgs(['batch', 'a.csv', '-c', '0'])).toThrow('--concurrency must be a positive integer')
+      expect(() => parseCliArgs(['-c', '2'])).toThrow('--concurrency only applies to batch')
+    })
+
+    it('should require auto-approve for parallel batches', () => {
+      expect(() => parseCliArgs(['batch', 'a.csv', '-c', '2'])).toThrow(
+        '--concurrency above 1 requires --auto-approve'
+      )
+    })
+
+    it('should reject a topic in batch mode', () => {
+      expect(() => parseCliArgs(['batch', 'a.csv', '--topic', 'x'])).toThrow(
+        '--topic and --from-stage cannot be used with batch'
+      )
+    })
+  })
+
+  describe('Suggest Command', () => {
+    it('should parse the niche and the research options', () => {
+      // Act
+      const options = parseCliArgs([
+        'suggest', ' AI developer tools ', '--sources', 'exa,twitter', '--research-profile', 'niche',
+        '--style-profile', 'calm'
+      ])
+
+      // Assert
+      expect(options.command).toBe('suggest')
+      expect(options.niche).toBe('AI developer tools')
+      expect(options.sources).toEqual(['exa', 'twitter'])
+      expect(options.researchProfile).toBe('niche')
+      expect(options.styleProfile).toBe('calm')
+    })
+
+    it('should require a niche and reject a topic', () => {
+      expect(() => parseCliArgs(['suggest'])).toThrow('suggest requires a niche')
+      expect(() => parseCliArgs(['suggest', '  '])).toThrow('suggest requires a niche')
+      expect(() => parseCliArgs(['suggest', 'AI', '--topic', 'x'])).toThrow(
+        '--topic and --from-stage cannot be used with suggest'
+      )
+    })
+  })
+
+  describe('Hook Pattern', () => {
+    it('should accept known hook patterns for new runs only', () => {
+      expect(parseCliArgs(['--hook-pattern', 'just-did']).hookPattern).toBe('just-did')
+      expect(parseCliArgs(['suggest', 'AI', '--hook-pattern', 'number']).hookPattern).toBe('number')
+      expect(() => parseCliArgs(['--hook-pattern', 'clickbait'])).toThrow(
+        'Unknown hook pattern "clickbait". Expected one of: question, contrarian, number, just-did'
+      )
+      expect(() => parseCliArgs(['resume', 'run-1', '--hook-pattern', 'number'])).toThrow(
+        '--hook-pattern only applies to new runs'
+      )
+    })
+  })
+
+  describe('Usage Errors', () => {
+    it('should reject unknown options', () => {
+      expect(() => parseCliArgs(['--topik', 'x'])).toThrow(CliUsageError)
+    })
+
+    it('should reject an empty topic', () => {
+      expect(() => parseCliArgs(['--topic', '   '])).toThrow('--topic must not be empty')
+    })
+
+    it('should reject unknown stage names', () => {
+      expect(() => parseCliArgs(['--from-stage', 'editing'])).toThrow('Unknown stage "editing"')
+    })
+
+    it('should require resume when starting after research', () => {
+      expect(() => parseCliArgs(['--from-stage', 'video'])).toThrow(
+        '--from-stage requires resume <runId>'
+      )
+    })
+
+    it('should reject unknown commands and a missing run id', () => {
+      expect(() => parseCliArgs(['restart'])).toThrow('Unknown command "restart"')
+      expect(() => parseCliArgs(['toString', 'x'])).toThrow('Unknown command "toString"')
+      expect(() => parseCliArgs(['constructor', 'x'])).toThrow('Unknown command "constructor"')
+      expect(() => parseCliArgs(['resume'])).toThrow('resume requires a run id')
+    })
+
+    it('should not allow changing the topic of a resumed run', () => {
+      expect(() => parseCliArgs(['resume', 'abc', '--topic', 'x'])).toThrow(
+        '--topic cannot be changed when resuming a run'
+      )
+    })
+
+    it('should only accept --sources for new runs', () => {
+      expect(parseCliArgs(['--sources', 'youtube, exa']).sources).toEqual(['youtube', 'exa'])
+      expect(() => parseCliArgs(['--sources', ' , '])).toThrow('--sources must name at least one source')
+      expect(() => parseCliArgs(['resume', 'abc', '--sources', 'exa'])).toThrow(
+        '--audio-profile, --video-profile, --research-profile, --style-profile and --sources only apply to new runs'
+      )
+      expect(() => parseCliArgs(['resume', 'abc', '--style-profile', 'calm'])).toThrow('only apply to new runs')
+    })
+
+    it('should allow starting from research without an output directory', () => {
+      expect(parseCliArgs(['--from-stage', 'research', '-t', 'x']).fromStage).toBe('research')
+    })
+  })
+})
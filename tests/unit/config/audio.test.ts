@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import * as path from 'path'
+import { DEFAULT_AUDIO_CONFIG, resolveAudioConfig } from '../../../src/config/audio.js'
+import { ConfigError } from '../../../src/config/file.js'
+import { useConfigSandbox } from '../../fixtures/configSandbox.js'
+
+const AUDIO_ENV_VARS = [
+  'ELEVENLABS_BACKEND',
+  'ELEVENLABS_VOICE_ID',
+  'ELEVENLABS_MODEL_ID',
+  'ELEVENLABS_STABILITY',
+  'ELEVENLABS_SIMILARITY_BOOST',
+  'ELEVENLABS_STYLE',
+  'ELEVENLABS_OUTPUT_FORMAT'
+]
+
+describe('Audio Configuration', () => {
+  const sandbox = useConfigSandbox(AUDIO_ENV_VARS)
+  const { writeConfig } = sandbox
+
+  describe('Sources and Precedence', () => {
+    it('should fall back to built-in defaults', () => {
+      expect(resolveAudioConfig()).toEqual(DEFAULT_AUDIO_CONFIG)
+    })
+
+    it('should apply file, env, profile and overrides in order', () => {
+      // Arrange
+      writeConfig({
+        audio: {
+          voiceId: 'file-voice',
+          stability: 0.2,
+          style: 0.1,
+          profiles: { calm: { stability: 0.9 } }
+        }
+      })
+      process.env.ELEVENLABS_STABILITY = '0.4'
+      process.env.ELEVENLABS_MODEL_ID = 'eleven_turbo_v2_5'
+
+      // Act
+      const config = resolveAudioConfig({
+        profile: 'calm',
+        overrides: { style: 0.3, voiceId: undefined }
+      })
+
+      // Assert
+      expect(config).toEqual({
+        ...DEFAULT_AUDIO_CONFIG,
+        voiceId: 'file-voice',
+        modelId: 'eleven_turbo_v2_5',
+        stability: 0.9,
+        style: 0.3
+      })
+    })
+  })
+
+  describe('Validation', () => {
+    it('should reject out-of-range settings with the field path', () => {
+      writeConfig({ audio: { similarityBoost: 1.5 } })
+      expect(() => resolveAudioConfig()).toThrow(/audio\.similarityBoost/)
+    })
+
+    it('should reject unknown output formats from env', () => {
+      process.env.ELEVENLABS_OUTPUT_FORMAT = 'flac_96000'
+      expect(() => resolveAudioConfig()).toThrow(ConfigError)
+    })
+
+    it('should reject non-numeric env values', () => {
+      process.env.ELEVENLABS_STYLE = 'loud'
+      expect(() => resolveAudioConfig()).toThrow(/env\.ELEVENLABS_STYLE/)
+    })
+
+    it('should list available profiles when an unknown one is selected', () => {
+      writeConfig({ audio: { profiles: { calm: {}, hype: {} } } })
+      expect(() => resolveAudioConfig({ profile: 'news' })).toThrow(
+        'Unknown audio profile "news" (available: calm, hype)'
+      )
+    })
+
+    it('should fail when an explicit config file is missing', () => {
+      process.env.VIDEO_AGENT_CONFIG = path.join(sandbox.dir, 'missing.json')
+      expect(() => resolveAudioConfig()).toThrow('Config file not found')
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_RESEARCH_CONFIG,
+  resolveResearchConfig
+} from '../../../src/config/research.js'
+import { useConfigSandbox } from '../../fixtures/configSandbox.js'
+
+const RESEARCH_ENV_VARS = [
+  'RESEARCH_CACHE_DIR',
+  'RESEARCH_CACHE_TTL_HOURS',
+  'EXA_LOOKBACK_DAYS',
+  'TWITTER_LOOKBACK_DAYS',
+  'TWITTER_MAX_RESULTS',
+  'TWITTER_MIN_LIKES',
+  'TWITTER_MIN_COMMENTS'
+]
+
+describe('Research Configuration', () => {
+  const { writeConfig } = useConfigSandbox(RESEARCH_ENV_VARS)
+
+  it('should fall back to built-in defaults', () => {
+    expect(resolveResearchConfig()).toEqual(DEFAULT_RESEARCH_CONFIG)
+  })
+
+  it('should apply file, env, profile and overrides in order', () => {
+    // Arrange
+    writeConfig({
+      research: {
+        exaLookbackDays: 14,
+        twitterMinLikes: 50,
+        profiles: { niche: { twitterMinLikes: 10, twitterMinComments: 0 } }
+      }
+    })
+    process.env.TWITTER_LOOKBACK_DAYS = '7'
+    process.env.TWITTER_MIN_LIKES = '200'
+
+    // Act
+    const config = resolveResearchConfig({
+      profile: 'niche',
+      overrides: { twitterMaxResults: 25 }
+    })
+
+    // Assert
+    expect(config).toEqual({
+      ...DEFAULT_RESEARCH_CONFIG,
+      exaLookbackDays: 14,
+      twitterLookbackDays: 7,
+      twitterMaxResults: 25,
+      twitterMinLikes: 10,
+      twitterMinComments: 0
+    })
+  })
+
+  it('should reject out-of-range windows and result counts', () => {
+    writeConfig({ research: { exaLookbackDays: 0 } })
+    expect(() => resolveResearchConfig()).toThrow(/research\.exaLookbackDays/)
+
+    writeConfig({})
+    process.env.TWITTER_MAX_RESULTS = '500'
+    expect(() => resolveResearchConfig()).toThrow(/research\.twitterMaxResults/)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SCRIPTING_CONFIG,
+  resolveScriptingConfig
+} from '../../../src/config/scripting.js'
+import { ConfigError } from '../../../src/config/file.js'
+import { useConfigSandbox } from '../../fixtures/configSandbox.js'
+
+const SCRIPTING_ENV_VARS = [
+  'FACT_CHECK_MODE',
+  'FACT_CHECK_RETRIES',
+  'STYLE_LINT_MODE',
+  'STYLE_LINT_RETRIES',
+  'REPEAT_THRESHOLD',
+  'SCRIPT_VARIANTS',
+  'STYLE_DIR',
+  'STYLE_PROFILE'
+]
+
+describe('Scripting Configuration', () => {
+  const { writeConfig } = useConfigSandbox(SCRIPTING_ENV_VARS)
+
+  it('should fall back to built-in defaults', () => {
+    expect(resolveScriptingConfig()).toEqual(DEFAULT_SCRIPTING_CONFIG)
+  })
+
+  it('should let env vars override the config file', () => {
+    // Arrange
+    writeConfig({
+      scripting: {
+        factCheck: 'flag',
+        styleLintRetries: 0,
+        variants: 3,
+        styleProfile: 'calm'
+      }
+    })
+    process.env.FACT_CHECK_MODE = 'off'
+    process.env.STYLE_LINT_MODE = 'flag'
+    process.env.SCRIPT_VARIANTS = '2'
+
+    // Act
+    const config = resolveScriptingConfig()
+
+    // Assert
+    expect(config).toEqual({
+      ...DEFAULT_SCRIPTING_CONFIG,
+      factCheck: 'off',
+      styleLint: 'flag',
+      styleLintRetries: 0,
+      variants: 2,
+      styleProfile: 'calm'
+    })
+  })
+
+  it('should reject unknown modes and out-of-range values', () => {
+    writeConfig({ scripting: { styleLint: 'strict' } })
+    expect(() => resolveScriptingConfig()).toThrow(ConfigError)
+    expect(() => resolveScriptingConfig()).toThrow(/scripting\.styleLint/)
+
+    writeConfig({})
+    process.env.SCRIPT_VARIANTS = '9'
+    expect(() => resolveScriptingConfig()).toThrow(/scripting\.variants/)
+
+    delete process.env.SCRIPT_VARIANTS
+    process.env.FACT_CHECK_RETRIES = '5'
+    expect(() => resolveScriptingConfig()).toThrow(/scripting\.factCheckRetries/)
+  })
+})
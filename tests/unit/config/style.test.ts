@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  DEFAULT_STYLE_PROFILE,
+  loadStyleProfiles,
+  resolveStyleProfile
+} from '../../../src/config/style.js'
+import { ConfigError } from '../../../src/config/file.js'
+import { useConfigSandbox } from '../../fixtures/configSandbox.js'
+
+describe('Style Profiles', () => {
+  const sandbox = useConfigSandbox(['STYLE_PROFILE'])
+  let stylesDir: string
+
+  const writeStyle = (file: string, content: string) => {
+    fs.writeFileSync(path.join(stylesDir, file), content)
+  }
+
+  beforeEach(() => {
+    stylesDir = path.join(sandbox.dir, 'styles')
+    fs.mkdirSync(stylesDir)
+    process.env.STYLE_DIR = stylesDir
+  })
+
+  it('should fall back to the built-in default profile', () => {
+    expect(resolveStyleProfile()).toEqual(DEFAULT_STYLE_PROFILE)
+  })
+
+  it('should read JSON and YAML files named after the profile', () => {
+    // Arrange
+    writeStyle('calm.yaml', 'persona: You explain AI news calmly.\nbannedPhrases:\n  - insane\ncallToAction: Follow for the weekly recap.\n')
+    writeStyle('hype.json', JSON.stringify({ tone: 'High energy.', targetSeconds: 20 }))
+    writeStyle('notes.txt', 'not a profile')
+
+    // Act
+    const profiles = loadStyleProfiles(stylesDir)
+
+    // Assert
+    expect(Object.keys(profiles)).toEqual(['calm', 'hype'])
+    expect(profiles.calm).toEqual({
+      persona: 'You explain AI news calmly.',
+      bannedPhrases: ['insane'],
+      callToAction: 'Follow for the weekly recap.'
+    })
+  })
+
+  it('should merge the selected profile over the defaults, then the overrides', () => {
+    // Arrange
+    writeStyle('hype.yml', 'tone: High energy.\ntargetSeconds: 20\nrules:\n  - Use second person.\n')
+    process.env.STYLE_PROFILE = 'hype'
+
+    // Act
+    const configured = resolveStyleProfile()
+    const overridden = resolveStyleProfile({ overrides: { targetSeconds: 45 } })
+
+    // Assert
+    expect(configured).toEqual({
+      ...DEFAULT_STYLE_PROFILE,
+      tone: 'High energy.',
+      targetSeconds: 20,
+      rules: ['Use second person.']
+    })
+    expect(overridden.targetSeconds).toBe(45)
+    expect(resolveStyleProfile({ profile: 'default' })).toEqual(DEFAULT_STYLE_PROFILE)
+  })
+
+  it('should reject unknown profiles, keys and values', () => {
+    // Arrange
+    writeStyle('calm.json', JSON.stringify({ tone: 'Calm.' }))
+
+    // Act & Assert
+    expect(() => resolveStyleProfile({ profile: 'loud' })).toThrow(
+      'Unknown style profile "loud" (available: default, calm)'
+    )
+
+    writeStyle('typo.yaml', 'persone: Oops\n')
+    expect(() => resolveStyleProfile()).toThrow(ConfigError)
+    expect(() => resolveStyleProfile()).toThrow(/style\.typo/)
+
+    fs.rmSync(path.join(stylesDir, 'typo.yaml'))
+    writeStyle('short.json', JSON.stringify({ targetSeconds: 2 }))
+    expect(() => resolveStyleProfile()).toThrow(/style\.short\.targetSeconds/)
+  })
+
+  it('should report files that cannot be parsed or define a profile twice', () => {
+    // Arrange
+    writeStyle('broken.yaml', 'persona: [unclosed\n')
+
+    // Act & Assert
+    expect(() => loadStyleProfiles(stylesDir)).toThrow(/Could not parse .*broken\.yaml/)
+
+    fs.rmSync(path.join(stylesDir, 'broken.yaml'))
+    writeStyle('calm.json', '{}')
+    writeStyle('calm.yaml', '')
+    expect(() => loadStyleProfiles(stylesDir)).toThrow('Style profile "calm" is defined twice')
+  })
+
+  it('should treat a missing styles folder as no profiles', () => {
+    expect(loadStyleProfiles(path.join(sandbox.dir, 'missing'))).toEqual({})
+  })
+})
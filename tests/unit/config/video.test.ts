@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_VIDEO_CONFIG,
+  getVideoDimensions,
+  resolveVideoConfig
+} from '../../../src/config/video.js'
+import { ConfigError } from '../../../src/config/file.js'
+import { useConfigSandbox } from '../../fixtures/configSandbox.js'
+
+const VIDEO_ENV_VARS = [
+  'HEYGEN_AVATAR_ID',
+  'HEYGEN_AVATAR_STYLE',
+  'HEYGEN_ASPECT_RATIO',
+  'HEYGEN_RESOLUTION',
+  'HEYGEN_TEST_MODE'
+]
+
+describe('Video Configuration', () => {
+  const { writeConfig } = useConfigSandbox(VIDEO_ENV_VARS)
+
+  describe('Sources and Precedence', () => {
+    it('should fall back to built-in defaults', () => {
+      expect(resolveVideoConfig()).toEqual(DEFAULT_VIDEO_CONFIG)
+    })
+
+    it('should apply file, env, profile and overrides in order', () => {
+      // Arrange
+      writeConfig({
+        video: {
+          avatarId: 'file-avatar',
+          resolution: '1080p',
+          profiles: {
+            studio: {
+              background: { type: 'image', url: 'https://example.com/studio.png' }
+            }
+          }
+        }
+      })
+      process.env.HEYGEN_TEST_MODE = 'true'
+      process.env.HEYGEN_ASPECT_RATIO = '16:9'
+
+      // Act
+      const config = resolveVideoConfig({
+        profile: 'studio',
+        overrides: { avatarId: 'run-avatar' }
+      })
+
+      // Assert
+      expect(config).toEqual({
+        ...DEFAULT_VIDEO_CONFIG,
+        avatarId: 'run-avatar',
+        aspectRatio: '16:9',
+        resolution: '1080p',
+        test: true,
+        background: { type: 'image', url: 'https://example.com/studio.png' }
+      })
+    })
+
+    it('should default video backgrounds to looping playback', () => {
+      writeConfig({ video: { background: { type: 'video', url: 'https://example.com/bg.mp4' } } })
+      expect(resolveVideoConfig().background).toEqual({
+        type: 'video',
+        url: 'https://example.com/bg.mp4',
+        playStyle: 'loop'
+      })
+    })
+  })
+
+  describe('Dimensions', () => {
+    it('should map aspect ratio and resolution to pixel dimensions', () => {
+      expect(getVideoDimensions('9:16', '720p')).toEqual({ width: 720, height: 1280 })
+      expect(getVideoDimensions('16:9', '1080p')).toEqual({ width: 1920, height: 1080 })
+      expect(getVideoDimensions('1:1', '1080p')).toEqual({ width: 1080, height: 1080 })
+    })
+  })
+
+  describe('Validation', () => {
+    it('should reject malformed background colors with the field path', () => {
+      writeConfig({ video: { background: { type: 'color', value: 'white' } } })
+      expect(() => resolveVideoConfig()).toThrow(/video\.background\.value/)
+    })
+
+    it('should reject unsupported aspect ratios from env', () => {
+      process.env.HEYGEN_ASPECT_RATIO = '4:3'
+      expect(() => resolveVideoConfig()).toThrow(ConfigError)
+    })
+
+    it('should reject test mode values other than true or false', () => {
+      process.env.HEYGEN_TEST_MODE = 'yes'
+      expect(() => resolveVideoConfig()).toThrow(/env\.HEYGEN_TEST_MODE/)
+    })
+
+    it('should list available profiles when an unknown one is selected', () => {
+      writeConfig({ video: { profiles: { studio: {} } } })
+      expect(() => resolveVideoConfig({ profile: 'outdoor' })).toThrow(
+        'Unknown video profile "outdoor" (available: studio)'
+      )
+    })
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  defineStage,
+  firstIncompleteStage,
+  resetStages,
+  runPipeline,
+  StageError
+} from '../../../src/pipeline/pipeline.js'
+import type { PipelineContext } from '../../../src/pipeline/pipeline.js'
+import { createRun, loadCheckpoint } from '../../../src/state/store.js'
+
+describe('Pipeline Engine', () => {
+  let runsDir: string
+
+  const makeContext = (runId: string): PipelineContext => ({
+    runId,
+    runDir: path.join(runsDir, runId),
+    runsDir,
+    autoApprove: true,
+    refreshResearch: false,
+    checkpoint: vi.fn()
+  })
+
+  const scriptStage = defineStage({
+    name: 'script',
+    description: 'Write a script',
+    inputs: ['topic'],
+    outputs: ['script'],
+    run: vi.fn(async (state) => ({ script: `Script about ${state.topic}` }))
+  })
+
+  const audioStage = defineStage({
+    name: 'audio',
+    description: 'Voice the script',
+    inputs: ['script'],
+    outputs: ['audioUrl'],
+    run: vi.fn(async () => ({ audioUrl: 'https://cdn.example.com/voice.mp3' }))
+  })
+
+  beforeEach(() => {
+    runsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-'))
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(runsDir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  describe('Stage Execution', () => {
+    it('should run stages in order and merge their outputs into state', async () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+
+      // Act
+      const state = await runPipeline([scriptStage, audioStage], checkpoint, makeContext(checkpoint.runId))
+
+      // Assert
+      expect(state.script).toBe('Script about AI agents')
+      expect(state.audioUrl).toBe('https://cdn.example.com/voice.mp3')
+      expect(checkpoint.completedStages).toEqual(['script', 'audio'])
+      expect(checkpoint.stageResults.script?.status).toBe('completed')
+    })
+
+    it('should checkpoint after each stage', async () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+
+      // Act
+      await runPipeline([scriptStage, audioStage], checkpoint, makeContext(checkpoint.runId))
+      const saved = loadCheckpoint(checkpoint.runId, runsDir)
+
+      // Assert
+      expect(saved.completedStages).toEqual(['script', 'audio'])
+      expect(saved.state.audioUrl).toBe('https://cdn.example.com/voice.mp3')
+    })
+
+    it('should skip stages that already completed', async () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents', script: 'Existing script' }, runsDir)
+      checkpoint.completedStages = ['script']
+
+      // Act
+      await runPipeline([scriptStage, audioStage], checkpoint, makeContext(checkpoint.runId))
+
+      // Assert
+      expect(scriptStage.run).not.toHaveBeenCalled()
+      expect(audioStage.run).toHaveBeenCalledTimes(1)
+    })
+
+    it('should skip a stage whose precondition returns a reason', async () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+      const optionalStage = defineStage({
+        name: 'thumbnail',
+        description: 'Render a thumbnail',
+        inputs: ['topic'],
+        outputs: [],
+        precondition: () => 'thumbnails disabled',
+        run: vi.fn(async () => ({}))
+      })
+
+      // Act
+      await runPipeline([optionalStage], checkpoint, makeContext(checkpoint.runId))
+
+      // Assert
+      expect(optionalStage.run).not.toHaveBeenCalled()
+      expect(checkpoint.stageResults.thumbnail).toMatchObject({
+        status: 'skipped',
+        detail: 'thumbnails disabled'
+      })
+      expect(checkpoint.completedStages).toEqual([])
+    })
+  })
+
+  describe('Error Handling', () => {
+    it('should fail with a StageError when inputs are missing', async () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+
+      // Act & Assert
+      await expect(
+        runPipeline([audioStage], checkpoint, makeContext(checkpoint.runId))
+      ).rejects.toThrow('Stage "audio" failed: missing input(s): script')
+      expect(audioStage.run).not.toHaveBeenCalled()
+    })
+
+    it('should wrap stage errors and record the failure', async () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+      const cause = new Error('ElevenLabs quota exceeded')
+      vi.mocked(scriptStage.run).mockRejectedValueOnce(cause)
+
+      // Act
+      const error = await runPipeline([scriptStage], checkpoint, makeContext(checkpoint.runId))
+        .catch((e) => e)
+
+      // Assert
+      expect(error).toBeInstanceOf(StageError)
+      expect(error.stage).toBe('script')
+      expect(error.cause).toBe(cause)
+      expect(loadCheckpoint(checkpoint.runId, runsDir).stageResults.script).toMatchObject({
+        status: 'failed',
+        detail: 'ElevenLabs quota exceeded'
+      })
+    })
+  })
+
+  describe('Resume Helpers', () => {
+    it('should find the first incomplete stage', () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+      checkpoint.completedStages = ['script']
+
+      // Assert
+      expect(firstIncompleteStage([scriptStage, audioStage], checkpoint)).toBe('audio')
+      checkpoint.completedStages.push('audio')
+      expect(firstIncompleteStage([scriptStage, audioStage], checkpoint)).toBeUndefined()
+    })
+
+    it('should reset a stage, later stages and their outputs', () => {
+      // Arrange
+      const checkpoint = createRun({
+        topic: 'AI agents',
+        script: 'Old script',
+        audioUrl: 'https://cdn.example.com/old.mp3'
+      }, runsDir)
+      checkpoint.completedStages = ['script', 'audio']
+
+      // Act
+      resetStages([scriptStage, audioStage], checkpoint, 'audio')
+
+      // Assert
+      expect(checkpoint.completedStages).toEqual(['script'])
+      expect(checkpoint.state.script).toBe('Old script')
+      expect(checkpoint.state.audioUrl).toBeUndefined()
+    })
+
+    it('should reject unknown stage names', () => {
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+      expect(() => resetStages([scriptStage], checkpoint, 'captions')).toThrow('Unknown stage "captions"')
+    })
+  })
+})
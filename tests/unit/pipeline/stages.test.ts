@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { runCitationStage } from '../../../src/agents/citations.js'
+import { runHumanReviewNode } from '../../../src/agents/human_review.js'
+import { runScriptingStage, runScriptVariantsStage } from '../../../src/agents/scripting.js'
+import { runVideoGenerationStage } from '../../../src/agents/video_generation.js'
+import type { PipelineContext } from '../../../src/pipeline/pipeline.js'
+import { scriptingStage, videoStage } from '../../../src/pipeline/stages.js'
+import type { AgentState, ScriptVariant } from '../../../src/state/state.js'
+import { useConfigSandbox } from '../../fixtures/configSandbox.js'
+import {
+  createAgentStateForStage,
+  createResearchData
+} from '../../fixtures/TestFixtureFactory.js'
+
+vi.mock('../../../src/agents/research.js', () => ({ runResearchStage: vi.fn() }))
+vi.mock('../../../src/agents/scripting.js', () => ({
+  runScriptingStage: vi.fn(),
+  runScriptVariantsStage: vi.fn()
+}))
+vi.mock('../../../src/agents/citations.js', () => ({ runCitationStage: vi.fn() }))
+vi.mock('../../../src/agents/human_review.js', () => ({ runHumanReviewNode: vi.fn() }))
+vi.mock('../../../src/agents/audio.js', () => ({ runAudioStage: vi.fn() }))
+vi.mock('../../../src/agents/video_generation.js', () => ({ runVideoGenerationStage: vi.fn() }))
+
+const SCRIPTING_ENV_VARS = [
+  'FACT_CHECK_MODE',
+  'FACT_CHECK_RETRIES',
+  'STYLE_LINT_MODE',
+  'STYLE_LINT_RETRIES',
+  'REPEAT_THRESHOLD',
+  'SCRIPT_VARIANTS',
+  'STYLE_DIR',
+  'STYLE_PROFILE'
+]
+
+describe('Pipeline Stages', () => {
+  const sandbox = useConfigSandbox(SCRIPTING_ENV_VARS)
+
+  const makeContext = (): PipelineContext => ({
+    runId: 'run-1',
+    runDir: '/runs/run-1',
+    runsDir: sandbox.dir,
+    autoApprove: true,
+    refreshResearch: false,
+    checkpoint: vi.fn()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    // An empty folder: the built-in default style profile
+    process.env.STYLE_DIR = sandbox.dir
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('Scripting Stage', () => {
+    // 80 words ending in the default call to action: passes every style rule
+    const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ')
+    const good = `${words(76)}. Hit follow for more!`
+    // Neither "Google" nor "$10 billion" is in the research
+    const unsupported = `${words(72)}. Google paid $10 billion. Hit follow for more!`
+    // Passes the fact check, breaks the length rule
+    const tooShort = `${words(40)}. Hit follow for more!`
+    const unsupportedAndShort = `${words(36)}. Google paid $10 billion. Hit follow for more!`
+
+    const makeState = (): AgentState =>
+      createAgentStateForStage('scripting', {
+        researchData: createResearchData({ trends: 'OpenAI raised $6.6 billion.' })
+      })
+
+    // Returns `scripts` in order and records the feedback each write got
+    const writeScripts = (...scripts: string[]) => {
+      const feedback: (string | undefined)[] = []
+      vi.mocked(runScriptingStage).mockImplementation(async (state) => {
+        feedback.push(state.feedback)
+        return scripts[feedback.length - 1] ?? good
+      })
+      return feedback
+    }
+
+    beforeEach(() => {
+      vi.mocked(runCitationStage).mockResolvedValue([])
+      vi.mocked(runHumanReviewNode).mockResolvedValue({ approved: true })
+    })
+
+    it('should rewrite unsupported claims at most factCheckRetries times', async () => {
+      // Arrange
+      process.env.FACT_CHECK_RETRIES = '2'
+      const feedback = writeScripts(unsupported, unsupported, unsupported)
+
+      // Act
+      const output = await scriptingStage.run(makeState(), makeContext())
+
+      // Assert
+      expect(runScriptingStage).toHaveBeenCalledTimes(3)
+      expect(feedback[0]).toBeUndefined()
+      expect(feedback[1]).toContain('"$10 billion", "Google"')
+      expect(runHumanReviewNode).toHaveBeenCalledTimes(1)
+      expect(output.script).toBe(unsupported)
+      expect(output.factCheck?.unsupported).toBe(2)
+    })
+
+    it('should rewrite broken style rules at most styleLintRetries times', async () => {
+      // Arrange
+      process.env.STYLE_LINT_RETRIES = '1'
+      const feedback = writeScripts(tooShort, tooShort)
+
+      // Act
+      const output = await scriptingStage.run(makeState(), makeContext())
+
+      // Assert
+      expect(runScriptingStage).toHaveBeenCalledTimes(2)
+      expect(feedback[1]).toMatch(/^Style check failed: 44 words \(aim for 75-85\)/)
+      expect(output.styleViolations?.map((v) => v.rule)).toEqual(['length'])
+    })
+
+    it('should not rewrite in flag mode', async () => {
+      // Arrange
+      process.env.FACT_CHECK_MODE = 'flag'
+      process.env.STYLE_LINT_MODE = 'flag'
+      writeScripts(unsupportedAndShort)
+
+      // Act
+      const output = await scriptingStage.run(makeState(), makeContext())
+
+      // Assert
+      expect(runScriptingStage).toHaveBeenCalledTimes(1)
+      expect(runHumanReviewNode).toHaveBeenCalledWith(
+        unsupportedAndShort,
+        expect.objectContaining({
+          factCheck: expect.objectContaining({ unsupported: 2 }),
+          styleViolations: [expect.objectContaining({ rule: 'length' })]
+        })
+      )
+      expect(output.factCheck?.unsupported).toBe(2)
+    })
+
+    it('should keep the reviewer feedback next to fact and style feedback', async () => {
+      // Arrange
+      const feedback = writeScripts(good, unsupportedAndShort, good)
+      vi.mocked(runHumanReviewNode)
+        .mockResolvedValueOnce({ approved: false, feedback: 'Make the hook punchier' })
+        .mockResolvedValueOnce({ approved: true })
+
+      // Act
+      const output = await scriptingStage.run(makeState(), makeContext())
+
+      // Assert
+      expect(runScriptingStage).toHaveBeenCalledTimes(3)
+      expect(feedback[1]).toBe('Make the hook punchier')
+      expect(feedback[2]?.split('\n')).toEqual([
+        'Make the hook punchier',
+        expect.stringMatching(/^Fact check failed/),
+        expect.stringMatching(/^Style check failed/)
+      ])
+      expect(output.script).toBe(good)
+      expect(output.feedback).toBeUndefined()
+    })
+
+    it('should reset the rewrite limits after the reviewer rejects a script', async () => {
+      // Arrange: one fact-check rewrite per script (the default)
+      const feedback = writeScripts(unsupported, unsupported, unsupported, unsupported)
+      vi.mocked(runHumanReviewNode)
+        .mockResolvedValueOnce({ approved: false, feedback: 'Use another story' })
+        .mockResolvedValueOnce({ approved: true })
+
+      // Act
+      await scriptingStage.run(makeState(), makeContext())
+
+      // Assert
+      expect(runScriptingStage).toHaveBeenCalledTimes(4)
+      expect(runHumanReviewNode).toHaveBeenCalledTimes(2)
+      expect(feedback[2]).toBe('Use another story')
+      expect(feedback[3]).toMatch(/^Use another story\nFact check failed/)
+    })
+
+    it('should check an approved variant other than the first again', async () => {
+      // Arrange
+      process.env.SCRIPT_VARIANTS = '2'
+      const variants: ScriptVariant[] = [
+        { script: good, story: 'OpenAI funding', score: 100, violations: [] },
+        { script: unsupported, story: 'Google deal', score: 100, violations: [] }
+      ]
+      vi.mocked(runScriptVariantsStage).mockResolvedValueOnce(variants)
+      vi.mocked(runHumanReviewNode).mockResolvedValueOnce({ approved: true, script: unsupported })
+
+      // Act
+      const output = await scriptingStage.run(makeState(), makeContext())
+
+      // Assert
+      expect(runScriptingStage).not.toHaveBeenCalled()
+      expect(runHumanReviewNode).toHaveBeenCalledWith(
+        good,
+        expect.objectContaining({ variants, factCheck: expect.objectContaining({ unsupported: 0 }) })
+      )
+      expect(runCitationStage).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(runCitationStage).mock.calls[1]?.[0]).toBe(unsupported)
+      expect(output.script).toBe(unsupported)
+      expect(output.variants).toBe(variants)
+      expect(output.factCheck?.unsupported).toBe(2)
+    })
+  })
+
+  describe('Video Stage', () => {
+    it('should forget a failed HeyGen job so resume starts a new render', async () => {
+      // Arrange
+      const state = createAgentStateForStage('video', { heygenVideoId: 'failed-video-456' })
+      const context = makeContext()
+      vi.mocked(runVideoGenerationStage).mockImplementationOnce(async (_audioUrl, options) => {
+        await options?.onVideoFailed?.('failed-video-456')
+        throw new Error('Generation Failed: {}')
+      })
+
+      // Act & Assert
+      await expect(videoStage.run(state, context)).rejects.toThrow('Generation Failed')
+      expect(vi.mocked(runVideoGenerationStage).mock.calls[0]?.[1]?.videoId).toBe('failed-video-456')
+      expect(state.heygenVideoId).toBeUndefined()
+      expect(context.checkpoint).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the HeyGen job id when polling times out', async () => {
+      // Arrange
+      const state = createAgentStateForStage('video')
+      const context = makeContext()
+      vi.mocked(runVideoGenerationStage).mockImplementationOnce(async (_audioUrl, options) => {
+        await options?.onVideoStarted?.('slow-video-789')
+        throw new Error('Video generation timed out after 60 attempts')
+      })
+
+      // Act & Assert
+      await expect(videoStage.run(state, context)).rejects.toThrow('timed out')
+      expect(state.heygenVideoId).toBe('slow-video-789')
+      expect(context.checkpoint).toHaveBeenCalledTimes(1)
+    })
+  })
+})
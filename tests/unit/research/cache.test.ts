@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { createResearchCache, normalizeTopic } from '../../../src/research/cache.js'
+
+const HOUR = 60 * 60 * 1000
+
+describe('Research Cache', () => {
+  let dir: string
+  let now: number
+  const key = { topic: 'Claude Code', source: 'exa', since: '2026-09-19' }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'research-cache-'))
+    now = Date.parse('2026-10-19T12:00:00Z')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should normalize case and whitespace in topics', () => {
+    expect(normalizeTopic('  Claude   CODE \n')).toBe('claude code')
+  })
+
+  it('should return stored results for the same topic, source and window', () => {
+    // Arrange
+    const cache = createResearchCache(dir, HOUR, () => now)
+    cache.set(key, { items: ['Trends data'], warnings: ['Exa: dropped item 1'] })
+
+    // Act
+    const cached = cache.get({ ...key, topic: ' claude  code ' })
+
+    // Assert
+    expect(cached).toEqual({
+      cachedAt: '2026-10-19T12:00:00.000Z',
+      outcome: { items: ['Trends data'], warnings: ['Exa: dropped item 1'] }
+    })
+    expect(fs.readdirSync(path.join(dir, 'exa'))).toHaveLength(1)
+  })
+
+  it('should miss for another window, another source or an expired entry', () => {
+    // Arrange
+    const cache = createResearchCache(dir, HOUR, () => now)
+    cache.set(key, { items: ['Trends data'] })
+
+    // Act & Assert
+    expect(cache.get({ ...key, since: '2026-09-20' })).toBeUndefined()
+    expect(cache.get({ ...key, source: 'twitter' })).toBeUndefined()
+    expect(cache.get({ ...key, params: { minLikes: 500 } })).toBeUndefined()
+    now += HOUR
+    expect(cache.get(key)).toBeUndefined()
+  })
+
+  it('should treat a corrupt entry as a miss', () => {
+    // Arrange
+    const cache = createResearchCache(dir, HOUR, () => now)
+    cache.set(key, { items: ['Trends data'] })
+    const [file] = fs.readdirSync(path.join(dir, 'exa'))
+    fs.writeFileSync(path.join(dir, 'exa', file!), '{not json')
+
+    // Act & Assert
+    expect(cache.get(key)).toBeUndefined()
+  })
+})
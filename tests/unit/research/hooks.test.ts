@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeHooks, classifyHook, formatHookPatterns } from '../../../src/research/hooks.js'
+import { TestFixtureFactory } from '../../fixtures/TestFixtureFactory.js'
+import type { VideoTranscript } from '../../../src/state/state.js'
+
+describe('Hook Patterns', () => {
+  describe('classifyHook', () => {
+    it('should recognise each pattern', () => {
+      expect(classifyHook('Is Cursor better than Copilot?')).toEqual(['question'])
+      expect(classifyHook('Stop using ChatGPT like this')).toEqual(['contrarian'])
+      expect(classifyHook('3 Claude tricks for coding')).toEqual(['number'])
+      expect(classifyHook('OpenAI just killed Zapier')).toEqual(['just-did'])
+    })
+
+    it('should allow several patterns and none', () => {
+      expect(classifyHook('Why nobody uses these 3 tools?')).toEqual(['question', 'contrarian', 'number'])
+      expect(classifyHook('My favourite coding setup')).toEqual([])
+      expect(classifyHook('It is just like magic')).toEqual([])
+    })
+
+    it('should not take imperatives for questions', () => {
+      expect(classifyHook('Do this before you code')).toEqual([])
+      expect(classifyHook('Have Claude write your tests')).toEqual([])
+      expect(classifyHook('Do you still write tests by hand?')).toEqual(['question'])
+      expect(classifyHook('What Anthropic shipped this week')).toEqual(['question'])
+    })
+
+    it('should only count leading and listicle numbers, not years or versions', () => {
+      expect(classifyHook('Five ways to prompt Claude')).toEqual(['number'])
+      expect(classifyHook('Top 5 AI tools')).toEqual(['number'])
+      expect(classifyHook('Claude Code in 2026 is insane')).toEqual([])
+      expect(classifyHook('2026 AI predictions')).toEqual([])
+      expect(classifyHook('GPT-5 tips for developers')).toEqual([])
+      expect(classifyHook('Gemini 3 features you missed')).toEqual([])
+    })
+
+    it('should need an actor and a past-tense verb for just-did', () => {
+      expect(classifyHook('OpenAI Just Built an Agent')).toEqual(['just-did'])
+      expect(classifyHook('Meta just open-sourced Llama 4')).toEqual(['just-did'])
+      expect(classifyHook('This is just insane')).toEqual([])
+      expect(classifyHook("I just can't believe this")).toEqual([])
+      expect(classifyHook('I just need this')).toEqual([])
+    })
+  })
+
+  describe('analyzeHooks', () => {
+    it('should count titles and spoken hooks, most used first', () => {
+      // Arrange
+      const videos = [
+        TestFixtureFactory.createVideoReference({ title: 'OpenAI just killed Zapier' }),
+        TestFixtureFactory.createVideoReference({ title: 'Google just shipped Gemini 3' }),
+        TestFixtureFactory.createVideoReference({ title: 'Is this the best AI IDE?' })
+      ]
+      const transcripts = [
+        { pacing: { hook: 'Anthropic just dropped a new model.' } } as VideoTranscript
+      ]
+
+      // Act
+      const patterns = analyzeHooks(videos, transcripts)
+
+      // Assert
+      expect(patterns).toEqual([
+        {
+          pattern: 'just-did',
+          count: 3,
+          examples: ['OpenAI just killed Zapier', 'Google just shipped Gemini 3', 'Anthropic just dropped a new model.']
+        },
+        { pattern: 'question', count: 1, examples: ['Is this the best AI IDE?'] }
+      ])
+    })
+  })
+
+  describe('formatHookPatterns', () => {
+    const patterns = [
+      { pattern: 'just-did' as const, count: 2, examples: ['OpenAI just killed Zapier'] },
+      { pattern: 'question' as const, count: 1, examples: ['Is this the best AI IDE?'] }
+    ]
+
+    it('should default to the most used pattern', () => {
+      // Act
+      const text = formatHookPatterns(patterns)
+
+      // Assert
+      expect(text).toContain('- just-did (2): "OpenAI just killed Zapier"')
+      expect(text).toContain('Open with a "just-did" hook (the most used pattern above)')
+    })
+
+    it('should name no single pattern for variants unless one is chosen', () => {
+      // Act
+      const open = formatHookPatterns(patterns, undefined, true)
+      const chosen = formatHookPatterns(patterns, 'question', true)
+
+      // Assert
+      expect(open).not.toContain('Open with a')
+      expect(open).toContain('Try a different pattern in each script')
+      expect(chosen).toContain('Open with a "question" hook.')
+    })
+
+    it('should use the chosen pattern even when no video used it', () => {
+      // Act
+      const text = formatHookPatterns([], 'contrarian')
+
+      // Assert
+      expect(text).toContain('No recognisable hook patterns')
+      expect(text).toContain('Open with a "contrarian" hook.')
+    })
+  })
+})
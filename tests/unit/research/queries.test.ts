@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractKeyTerms,
+  planExaQuery,
+  planTwitterQuery,
+  planYoutubeQuery
+} from '../../../src/research/queries.js'
+
+describe('Query Planning', () => {
+  describe('extractKeyTerms', () => {
+    it('should keep casing and years while dropping filler words', () => {
+      // Act
+      const terms = extractKeyTerms('Claude code for development in 2026')
+
+      // Assert
+      expect(terms).toEqual(['Claude', 'code', 'development', '2026'])
+    })
+
+    it('should strip surrounding punctuation but keep names like C++ and Node.js', () => {
+      // Act
+      const terms = extractKeyTerms('"Why" C++ beats Node.js, 3 times?')
+
+      // Assert
+      expect(terms).toEqual(['C++', 'beats', 'Node.js', 'times'])
+    })
+  })
+
+  describe('planYoutubeQuery', () => {
+    it('should add a topic hashtag and #shorts', () => {
+      // Act
+      const query = planYoutubeQuery('OpenAI Sora in 2025')
+
+      // Assert
+      expect(query).toBe('OpenAI Sora 2025 #OpenAISora #shorts')
+    })
+
+    it('should fall back to the topic when it has no key terms', () => {
+      // Act
+      const query = planYoutubeQuery('how to')
+
+      // Assert
+      expect(query).toBe('how to #shorts')
+    })
+  })
+
+  describe('planTwitterQuery', () => {
+    it('should use at most three terms, no year, and only recent search operators', () => {
+      // Act
+      const query = planTwitterQuery('Best AI coding agents for startups in 2026')
+
+      // Assert
+      expect(query).toBe('Best AI coding -is:retweet lang:en')
+    })
+  })
+
+  describe('planExaQuery', () => {
+    it('should phrase the whole topic as an article introduction', () => {
+      // Act
+      const query = planExaQuery('  Claude code for development in 2026 ')
+
+      // Assert
+      expect(query).toBe('Here is a recent news article about Claude code for development in 2026:')
+    })
+  })
+})
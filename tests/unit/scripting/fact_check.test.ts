@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractClaims,
+  formatFactCheck,
+  formatFactCheckFeedback,
+  runFactCheck
+} from '../../../src/scripting/fact_check.js'
+import { DEFAULT_STYLE_PROFILE } from '../../../src/config/style.js'
+import type { ResearchData } from '../../../src/state/state.js'
+
+const research: ResearchData = {
+  videos: [{ title: 'Why Nvidia keeps winning', url: 'https://youtu.be/a', videoId: 'a' }],
+  rawTranscripts: '',
+  trends: 'OpenAI raised $6.6 billion in October 2024, and revenue grew 40%.',
+  news: [{ title: 'Anthropic launches Claude Code', url: 'https://example.com/n1' }],
+  twitterInsights: [
+    { text: 'Over 1,200 teams already use it', url: 'https://x.com/1', likes: 150, comments: 12, views: 0 }
+  ]
+}
+
+describe('Fact Check', () => {
+  describe('extractClaims', () => {
+    it('should pull out amounts, dates and names but skip small counts', () => {
+      // Arrange
+      const script =
+        'OpenAI just raised $6.6 billion. In October 2024 it had 3 new products and Sam Altman said revenue grew 40%.'
+
+      // Act
+      const claims = extractClaims(script)
+
+      // Assert
+      expect(claims).toEqual([
+        { text: 'October 2024', kind: 'date' },
+        { text: '$6.6 billion', kind: 'number' },
+        { text: '40%', kind: 'number' },
+        { text: 'OpenAI', kind: 'name' },
+        { text: 'Sam Altman', kind: 'name' }
+      ])
+    })
+
+    it('should ignore filler words that start a sentence', () => {
+      // Arrange
+      const script = 'This is wild. The Claude Code team shipped it.'
+
+      // Act
+      const claims = extractClaims(script)
+
+      // Assert
+      expect(claims).toEqual([{ text: 'Claude Code', kind: 'name' }])
+    })
+
+    it('should keep a sentence-initial word unless it also appears in lowercase', () => {
+      // Arrange
+      const script = 'Nvidia just bought Mistral. Companies follow the companies that ship.'
+
+      // Act
+      const claims = extractClaims(script)
+
+      // Assert
+      expect(claims).toEqual([
+        { text: 'Nvidia', kind: 'name' },
+        { text: 'Mistral', kind: 'name' }
+      ])
+    })
+
+    it('should use the research text to tell words from names', () => {
+      // Act
+      const claims = extractClaims('Agents are everywhere.', 'Coding agents took off this year.')
+
+      // Assert
+      expect(claims).toEqual([])
+    })
+  })
+
+  describe('runFactCheck', () => {
+    it('should match numbers by value and names case-insensitively', () => {
+      // Arrange
+      const script = 'OpenAI raised 6.6B dollars. 1200 teams use CLAUDE CODE from Anthropic.'
+
+      // Act
+      const report = runFactCheck(script, research)
+
+      // Assert
+      expect(report.unsupported).toBe(0)
+      expect(report.claims.every((claim) => claim.supported)).toBe(true)
+    })
+
+    it('should flag claims the research does not mention', () => {
+      // Arrange
+      const script = 'In March 2023 Google spent $10 billion. Nvidia shares rose 40%.'
+
+      // Act
+      const report = runFactCheck(script, research)
+
+      // Assert
+      expect(report.claims.filter((c) => !c.supported).map((c) => c.text)).toEqual([
+        'March 2023',
+        '$10 billion',
+        'Google'
+      ])
+      expect(report.unsupported).toBe(3)
+    })
+
+    it('should not check the call to action of the style profile', () => {
+      // Arrange
+      const style = { ...DEFAULT_STYLE_PROFILE, callToAction: 'Follow Daily Dev Drops for more!' }
+
+      // Act
+      const custom = runFactCheck('OpenAI grew 40%. Follow Daily Dev Drops for more!', research, style)
+      const byDefault = runFactCheck('OpenAI grew 40%. Hit follow for more!', research)
+
+      // Assert
+      expect(custom.unsupported).toBe(0)
+      expect(custom.claims.map((c) => c.text)).toEqual(['40%', 'OpenAI'])
+      expect(byDefault.unsupported).toBe(0)
+    })
+
+    it('should flag a wrong company name at the start of the hook', () => {
+      // Arrange
+      const script = 'Nvidia just bought Mistral. Nvidia paid $5 billion.'
+
+      // Act
+      const report = runFactCheck(script, {
+        ...research,
+        videos: [],
+        trends: 'Anthropic raised $5 billion.'
+      })
+
+      // Assert
+      expect(report.claims.filter((c) => !c.supported).map((c) => c.text)).toEqual([
+        'Nvidia',
+        'Mistral'
+      ])
+    })
+  })
+
+  describe('formatting', () => {
+    it('should list unsupported claims in the feedback and the review output', () => {
+      // Arrange
+      const report = runFactCheck('Then Google spent $10 billion.', research)
+
+      // Act
+      const feedback = formatFactCheckFeedback(report)
+      const review = formatFactCheck(report)
+
+      // Assert
+      expect(feedback).toContain('"$10 billion", "Google"')
+      expect(review).toBe(
+        '⚠️ "$10 billion" (number) not found in the research\n⚠️ "Google" (name) not found in the research'
+      )
+    })
+
+    it('should say when every claim is supported', () => {
+      // Act
+      const review = formatFactCheck(runFactCheck('OpenAI grew 40%.', research))
+
+      // Assert
+      expect(review).toBe('All 2 claim(s) appear in the research.')
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findRepeat,
+  formatCoveredVideos,
+  scriptSimilarity,
+  selectCoveredVideos
+} from '../../../src/scripting/repeats.js'
+import type { VideoHistoryEntry } from '../../../src/state/history.js'
+
+const entry = (runId: string, topic: string, story: string, script: string): VideoHistoryEntry => ({
+  runId,
+  producedAt: '2026-10-01T00:00:00.000Z',
+  topic,
+  story,
+  hook: script.split('. ')[0] ?? '',
+  script,
+  sources: []
+})
+
+const anthropicScript =
+  'Anthropic just raised $2 billion from Google. The money goes into training Claude and new data centers. Hit follow for more!'
+
+describe('Repeat Detection', () => {
+  describe('scriptSimilarity', () => {
+    it('should score two takes on the same story higher than different stories', () => {
+      // Arrange
+      const retake =
+        'Google just put $2 billion into Anthropic. Claude gets the money for training and data centers. Hit follow for more!'
+      const other = 'Cursor shipped background agents that fix bugs while you sleep. Hit follow for more!'
+
+      // Act
+      const same = scriptSimilarity(anthropicScript, retake)
+      const different = scriptSimilarity(anthropicScript, other)
+
+      // Assert
+      expect(same).toBeGreaterThan(0.6)
+      expect(different).toBeLessThan(0.2)
+      expect(scriptSimilarity(anthropicScript, anthropicScript)).toBeCloseTo(1)
+      expect(scriptSimilarity('', anthropicScript)).toBe(0)
+    })
+  })
+
+  describe('findRepeat', () => {
+    it('should return the closest past video above the threshold', () => {
+      // Arrange
+      const history = [
+        entry('run-1', 'Cursor agents', 'Cursor ships agents', 'Cursor shipped background agents.'),
+        entry('run-2', 'Anthropic funding', 'Anthropic raises $2 billion', anthropicScript)
+      ]
+
+      // Act
+      const match = findRepeat(anthropicScript, history, 0.6)
+
+      // Assert
+      expect(match).toEqual({
+        runId: 'run-2',
+        topic: 'Anthropic funding',
+        story: 'Anthropic raises $2 billion',
+        similarity: 1
+      })
+      expect(findRepeat('Cursor agents are new.', history.slice(1), 0.6)).toBeUndefined()
+    })
+  })
+
+  describe('selectCoveredVideos', () => {
+    it('should pick related videos, closest and then newest first', () => {
+      // Arrange
+      const history = [
+        entry('run-1', 'Claude Code tips', 'Claude Code hooks', 'a'),
+        entry('run-2', 'Cursor agents', 'Cursor ships agents', 'b'),
+        entry('run-3', 'Claude pricing', 'Claude gets cheaper', 'c'),
+        entry('run-4', 'Claude Code in 2026', 'Claude Code goes GA', 'd')
+      ]
+
+      // Act
+      const covered = selectCoveredVideos('Claude Code for development', history)
+
+      // Assert
+      expect(covered.map((e) => e.runId)).toEqual(['run-4', 'run-1', 'run-3'])
+    })
+
+    it('should format stories and hooks for the prompt', () => {
+      // Act
+      const text = formatCoveredVideos([entry('run-1', 'AI', 'Story one', 'Hook one. Body.')])
+
+      // Assert
+      expect(text).toBe('- Story: "Story one" | Hook: "Hook one"')
+    })
+  })
+})
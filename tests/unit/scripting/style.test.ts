@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_STYLE_PROFILE } from '../../../src/config/style.js'
+import {
+  formatStyleFeedback,
+  formatStyleViolations,
+  lintScript,
+  scoreScript,
+  splitScriptLines,
+  targetWordRange
+} from '../../../src/scripting/style.js'
+
+// 80 words: the middle of the 30 second budget
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ')
+const onTarget = `${words(76)}. ${DEFAULT_STYLE_PROFILE.callToAction}`
+
+describe('Script Style', () => {
+  it('should turn seconds into a word range', () => {
+    expect(targetWordRange(30)).toEqual({ min: 75, max: 85 })
+    expect(targetWordRange(45)).toEqual({ min: 115, max: 125 })
+  })
+
+  it('should split a script into sentences', () => {
+    expect(splitScriptLines('He said "wow!" Then left. Why? Hit follow for more!')).toEqual([
+      'He said "wow!"',
+      'Then left.',
+      'Why?',
+      'Hit follow for more!'
+    ])
+  })
+
+  describe('lintScript', () => {
+    it('should pass a script that follows every rule', () => {
+      expect(lintScript(onTarget)).toEqual([])
+    })
+
+    it('should report each broken rule with the offending text', () => {
+      // Arrange
+      const script = `This Game-Changer will unlock everything 🚀🚀 ${words(10)}. Follow for more 🔥`
+
+      // Act
+      const violations = lintScript(script)
+
+      // Assert
+      expect(violations).toEqual([
+        { rule: 'emoji', message: 'Contains emojis: 🚀 🔥', found: ['🚀', '🔥'] },
+        {
+          rule: 'banned-phrase',
+          message: 'Uses banned phrases: "game-changer", "unlock"',
+          found: ['game-changer', 'unlock']
+        },
+        { rule: 'length', message: '20 words (aim for 75-85)' },
+        {
+          rule: 'call-to-action',
+          message: 'Last sentence is not exactly "Hit follow for more!"',
+          found: ['Follow for more 🔥']
+        }
+      ])
+    })
+
+    it('should require the call to action as its own sentence', () => {
+      // Arrange
+      const script = `${words(76)} and Hit follow for more!`
+
+      // Act
+      const violations = lintScript(script)
+
+      // Assert
+      expect(violations.map((v) => v.rule)).toEqual(['call-to-action'])
+    })
+
+    it('should accept a call to action of more than one sentence', () => {
+      // Arrange
+      const style = { ...DEFAULT_STYLE_PROFILE, callToAction: 'Like this? Hit follow!' }
+
+      // Act
+      const passing = lintScript(`${words(76)}. Like this? Hit follow!`, style)
+      const failing = lintScript(`${words(76)} and like this? Hit follow!`, style)
+
+      // Assert
+      expect(passing).toEqual([])
+      expect(failing.map((v) => v.rule)).toEqual(['call-to-action'])
+    })
+
+    it('should check against the rules of the given style profile', () => {
+      // Arrange
+      const style = {
+        ...DEFAULT_STYLE_PROFILE,
+        bannedPhrases: ['Word'],
+        callToAction: 'Subscribe for the recap.',
+        targetSeconds: 45
+      }
+
+      // Act
+      const violations = lintScript(onTarget, style)
+
+      // Assert
+      expect(violations.map((v) => v.message)).toEqual([
+        'Uses banned phrases: "Word"',
+        '80 words (aim for 115-125)',
+        'Last sentence is not exactly "Subscribe for the recap."'
+      ])
+    })
+  })
+
+  it('should score by the share of rules met', () => {
+    expect(scoreScript(onTarget)).toEqual({ score: 100, violations: [] })
+    expect(scoreScript(`${words(10)}.`).score).toBe(50)
+  })
+
+  it('should turn violations into feedback and review text', () => {
+    // Arrange
+    const violations = lintScript(`${words(10)}.`)
+
+    // Act & Assert
+    expect(formatStyleFeedback(violations)).toBe(
+      'Style check failed: 10 words (aim for 75-85); Last sentence is not exactly "Hit follow for more!". Fix these and follow STRICT WRITING RULES and STRUCTURE exactly.'
+    )
+    expect(formatStyleViolations(violations)).toBe(
+      '⚠️ 10 words (aim for 75-85)\n⚠️ Last sentence is not exactly "Hit follow for more!"'
+    )
+    expect(formatStyleViolations([])).toBe('Meets all style rules.')
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { formatVariants, mergeVariantLines, rankVariants } from '../../../src/scripting/variants.js'
+import type { ScriptVariant, StyleViolation } from '../../../src/state/state.js'
+
+const variant = (script: string, score = 100, violations: StyleViolation[] = []): ScriptVariant => ({
+  script,
+  story: 'Story',
+  score,
+  violations
+})
+
+const first = variant('Is Cursor worth it? It just shipped agents. Hit follow for more!')
+const second = variant('OpenAI just killed Zapier. Agents now run your workflows. Hit follow for more!', 75, [
+  { rule: 'length', message: '14 words (aim for 75-85)' }
+])
+
+describe('Script Variants', () => {
+  it('should rank by score and keep the model order on ties', () => {
+    // Arrange
+    const third = variant('Third take.', 100)
+
+    // Act
+    const ranked = rankVariants([second, first, third])
+
+    // Assert
+    expect(ranked).toEqual([first, third, second])
+  })
+
+  describe('mergeVariantLines', () => {
+    it('should join the referenced lines in the given order', () => {
+      expect(mergeVariantLines([first, second], '2.1, 1.2 1.3')).toBe(
+        'OpenAI just killed Zapier. It just shipped agents. Hit follow for more!'
+      )
+    })
+
+    it('should reject unknown and malformed references', () => {
+      expect(() => mergeVariantLines([first, second], '3.1')).toThrow('Unknown line "3.1"')
+      expect(() => mergeVariantLines([first, second], '1.9')).toThrow('Unknown line "1.9"')
+      expect(() => mergeVariantLines([first, second], 'first')).toThrow('Unknown line "first"')
+      expect(() => mergeVariantLines([first, second], ' ')).toThrow('List the lines to keep')
+    })
+  })
+
+  it('should label every line with its merge reference', () => {
+    // Act
+    const text = formatVariants([first, { ...second, hookPattern: 'just-did' }])
+
+    // Assert
+    expect(text).toContain('VARIANT 1 (score 100)\nStory: Story\n[1.1] Is Cursor worth it?')
+    expect(text).toContain('Meets all style rules.')
+    expect(text).toContain('VARIANT 2 (score 75, just-did hook)')
+    expect(text).toContain('[2.3] Hit follow for more!')
+    expect(text).toContain('⚠️ 14 words (aim for 75-85)')
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  buildHistoryEntry,
+  getHistoryPath,
+  loadHistory,
+  recordVideo
+} from '../../../src/state/history.js'
+import type { CitedSource } from '../../../src/state/state.js'
+
+describe('Video History', () => {
+  let runsDir: string
+
+  const news: CitedSource = { id: 'N1', type: 'news', title: 'Anthropic raises $2 billion', url: 'https://news.example.com/raise' }
+  const tweet: CitedSource = { id: 'T1', type: 'tweet', title: 'Huge raise for Anthropic', url: 'https://x.com/1' }
+
+  beforeEach(() => {
+    runsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runs-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(runsDir, { recursive: true, force: true })
+  })
+
+  describe('buildHistoryEntry', () => {
+    it('should use the most cited source as the story and the first sentence as the hook', () => {
+      // Arrange
+      const state = {
+        topic: 'Anthropic funding',
+        script: 'Anthropic just raised $2 billion. Here is why. Hit follow for more!',
+        citations: [
+          { claim: '$2 billion', sources: [tweet, news] },
+          { claim: 'Anthropic raised', sources: [news] }
+        ],
+        videoUrl: 'https://heygen.example.com/video.mp4'
+      }
+
+      // Act
+      const entry = buildHistoryEntry('run-1', state, new Date('2026-10-19T18:15:00.000Z'))
+
+      // Assert
+      expect(entry).toEqual({
+        runId: 'run-1',
+        producedAt: '2026-10-19T18:15:00.000Z',
+        topic: 'Anthropic funding',
+        story: 'Anthropic raises $2 billion',
+        hook: 'Anthropic just raised $2 billion.',
+        script: state.script,
+        sources: [tweet, news],
+        videoUrl: 'https://heygen.example.com/video.mp4',
+        videoPath: undefined
+      })
+    })
+
+    it('should fall back to the hook when nothing was cited', () => {
+      // Act
+      const entry = buildHistoryEntry('run-1', { topic: 'AI', script: 'Wait for it! More text.' })
+
+      // Assert
+      expect(entry.story).toBe('Wait for it!')
+      expect(entry.sources).toEqual([])
+    })
+  })
+
+  describe('recordVideo / loadHistory', () => {
+    it('should append entries and replace a re-recorded run', () => {
+      // Arrange
+      const entry = buildHistoryEntry('run-1', { topic: 'AI', script: 'First take.' })
+
+      // Act
+      recordVideo(entry, runsDir)
+      recordVideo(buildHistoryEntry('run-2', { topic: 'AI', script: 'Other video.' }), runsDir)
+      recordVideo({ ...entry, script: 'Second take.' }, runsDir)
+
+      // Assert
+      const history = loadHistory(runsDir)
+      expect(history.map((e) => [e.runId, e.script])).toEqual([
+        ['run-2', 'Other video.'],
+        ['run-1', 'Second take.']
+      ])
+    })
+
+    it('should skip unreadable lines and return nothing without a file', () => {
+      // Arrange
+      expect(loadHistory(runsDir)).toEqual([])
+      const entry = buildHistoryEntry('run-1', { topic: 'AI', script: 'Take.' })
+      fs.writeFileSync(getHistoryPath(runsDir), `{not json\n${JSON.stringify(entry)}\n{"runId": 1}\n`)
+
+      // Act
+      const history = loadHistory(runsDir)
+
+      // Assert
+      expect(history).toEqual([entry])
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  createRun,
+  generateRunId,
+  getRunDir,
+  loadCheckpoint,
+  markStageComplete,
+  runExists
+} from '../../../src/state/store.js'
+
+describe('Run Store', () => {
+  let runsDir: string
+
+  beforeEach(() => {
+    runsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runs-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(runsDir, { recursive: true, force: true })
+  })
+
+  describe('Run Creation', () => {
+    it('should generate sortable run ids', () => {
+      // Act
+      const runId = generateRunId(new Date('2026-10-19T18:15:00.000Z'))
+
+      // Assert
+      expect(runId).toMatch(/^20261019-181500-[0-9a-f]{6}$/)
+    })
+
+    it('should create a run directory with an initial checkpoint', () => {
+      // Act
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+
+      // Assert
+      expect(runExists(checkpoint.runId, runsDir)).toBe(true)
+      expect(fs.existsSync(path.join(getRunDir(checkpoint.runId, runsDir), 'state.json'))).toBe(true)
+      expect(checkpoint.completedStages).toEqual([])
+      expect(checkpoint.stageResults).toEqual({})
+    })
+  })
+
+  describe('Checkpointing and Resume', () => {
+    it('should persist completed stages and state between loads', () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+      checkpoint.state.script = 'Approved script. Hit follow for more!'
+
+      // Act
+      markStageComplete(checkpoint, 'research', runsDir)
+      markStageComplete(checkpoint, 'scripting', runsDir)
+      const loaded = loadCheckpoint(checkpoint.runId, runsDir)
+
+      // Assert
+      expect(loaded.completedStages).toEqual(['research', 'scripting'])
+      expect(loaded.state.script).toBe('Approved script. Hit follow for more!')
+    })
+
+    it('should not record a stage twice', () => {
+      // Arrange
+      const checkpoint = createRun({ topic: 'AI agents' }, runsDir)
+
+      // Act
+      markStageComplete(checkpoint, 'research', runsDir)
+      markStageComplete(checkpoint, 'research', runsDir)
+
+      // Assert
+      expect(checkpoint.completedStages).toEqual(['research'])
+    })
+
+    it('should throw a clear error for unknown runs', () => {
+      expect(() => loadCheckpoint('missing-run', runsDir)).toThrow('Run "missing-run" not found')
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { computePacing, formatPacingReference } from '../../../src/transcripts/pacing.js'
+import type { VideoTranscript } from '../../../src/state/state.js'
+
+describe('Transcript Pacing', () => {
+  describe('computePacing', () => {
+    it('should measure pace and the first sentence as the hook', () => {
+      // Arrange
+      const segments = [
+        { text: 'You are using ChatGPT wrong.', start: 0, duration: 2 },
+        { text: 'Here are three fixes', start: 2, duration: 2 },
+        { text: 'that take ten seconds.', start: 4, duration: 1 }
+      ]
+
+      // Act
+      const pacing = computePacing(segments)
+
+      // Assert
+      expect(pacing).toEqual({
+        durationSeconds: 5,
+        wordCount: 13,
+        wordsPerSecond: 2.6,
+        hook: 'You are using ChatGPT wrong.',
+        hookWords: 5,
+        hookSeconds: 2
+      })
+    })
+
+    it('should time a hook that ends mid-segment proportionally', () => {
+      // Arrange
+      const segments = [
+        { text: 'Wait for it', start: 0, duration: 1 },
+        { text: 'right now. Then the rest', start: 1, duration: 2 }
+      ]
+
+      // Act
+      const pacing = computePacing(segments)
+
+      // Assert
+      expect(pacing.hook).toBe('Wait for it right now.')
+      expect(pacing.hookSeconds).toBe(1.8)
+    })
+
+    it('should cap hooks without a sentence break', () => {
+      // Arrange
+      const segments = Array.from({ length: 6 }, (_, i) => ({
+        text: 'no punctuation here',
+        start: i * 3,
+        duration: 3
+      }))
+
+      // Act
+      const pacing = computePacing(segments)
+
+      // Assert
+      expect(pacing.hookSeconds).toBe(8)
+      expect(pacing.hookWords).toBe(9)
+    })
+
+    it('should reject an empty transcript', () => {
+      expect(() => computePacing([])).toThrow('Cannot compute pacing for an empty transcript')
+    })
+  })
+
+  describe('formatPacingReference', () => {
+    const transcript = (title: string, wordsPerSecond: number, hookSeconds: number): VideoTranscript => ({
+      videoId: title,
+      title,
+      provider: 'file',
+      segments: [],
+      pacing: { durationSeconds: 30, wordCount: 90, wordsPerSecond, hook: `${title} hook.`, hookWords: 4, hookSeconds }
+    })
+
+    it('should summarise pace, hook length and example hooks', () => {
+      // Act
+      const reference = formatPacingReference([transcript('One', 2.5, 2), transcript('Two', 3.5, 3)])
+
+      // Assert
+      expect(reference).toContain('Measured from 2 top short(s)')
+      expect(reference).toContain('Average pace: 3 words per second (range 2.5-3.5)')
+      expect(reference).toContain('Average hook: 4 words in 2.5 seconds')
+      expect(reference).toContain('- "One": hook "One hook."')
+    })
+
+    it('should report when no transcripts are available', () => {
+      expect(formatPacingReference([])).toBe('No transcripts available.')
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { extractSegments } from '../../../src/transcripts/apify.js'
+import {
+  createFileTranscriptProvider,
+  saveTranscript,
+  withTranscriptCache
+} from '../../../src/transcripts/file.js'
+import { createTranscriptProvider } from '../../../src/transcripts/provider.js'
+import { DEFAULT_TRANSCRIPT_CONFIG } from '../../../src/config/transcripts.js'
+
+vi.mock('../../../src/services/client.js', () => ({
+  getComposioClient: vi.fn(),
+  getActiveConnectionId: vi.fn()
+}))
+
+const video = { title: 'Top Short', url: 'https://youtube.com/shorts/abc123', videoId: 'abc123' }
+const segments = [{ text: 'Hello there.', start: 0, duration: 1.5 }]
+
+describe('Transcript Providers', () => {
+  let dir: string
+  const signal = new AbortController().signal
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcripts-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('extractSegments', () => {
+    it('should read nested caption lines with start/dur fields', () => {
+      // Arrange
+      const data = [{ videoId: 'abc123', data: [
+        { text: ' second ', start: '2.5', dur: '1' },
+        { text: 'first', start: '0', dur: '2.5' }
+      ] }]
+
+      // Act & Assert
+      expect(extractSegments(data)).toEqual([
+        { text: 'first', start: 0, duration: 2.5 },
+        { text: 'second', start: 2.5, duration: 1 }
+      ])
+    })
+
+    it('should accept offset/duration fields', () => {
+      expect(extractSegments({ transcript: [{ text: 'hi', offset: 1, duration: 2 }] })).toEqual([
+        { text: 'hi', start: 1, duration: 2 }
+      ])
+    })
+
+    it('should return undefined when no captions are present', () => {
+      expect(extractSegments([{ error: 'Transcript disabled' }])).toBeUndefined()
+    })
+  })
+
+  describe('File Provider and Cache', () => {
+    it('should read saved transcripts and ignore missing or corrupt files', async () => {
+      // Arrange
+      saveTranscript(dir, 'abc123', 'apify', segments)
+      fs.writeFileSync(path.join(dir, 'broken.json'), '{not json')
+      const provider = createFileTranscriptProvider(dir)
+
+      // Act & Assert
+      expect(await provider.fetchTranscript(video, signal)).toEqual(segments)
+      expect(await provider.fetchTranscript({ ...video, videoId: 'broken' }, signal)).toBeUndefined()
+      expect(await provider.fetchTranscript({ ...video, videoId: 'missing' }, signal)).toBeUndefined()
+    })
+
+    it('should only fetch each video once', async () => {
+      // Arrange
+      const upstream = { name: 'fake', fetchTranscript: vi.fn().mockResolvedValue(segments) }
+      const provider = withTranscriptCache(upstream, dir)
+
+      // Act
+      const first = await provider.fetchTranscript(video, signal)
+      const second = await provider.fetchTranscript(video, signal)
+
+      // Assert
+      expect(first).toEqual(segments)
+      expect(second).toEqual(segments)
+      expect(upstream.fetchTranscript).toHaveBeenCalledTimes(1)
+      expect(JSON.parse(fs.readFileSync(path.join(dir, 'abc123.json'), 'utf-8'))).toMatchObject({
+        videoId: 'abc123',
+        provider: 'fake'
+      })
+    })
+  })
+
+  describe('createTranscriptProvider', () => {
+    it('should build the configured provider', () => {
+      expect(createTranscriptProvider({ ...DEFAULT_TRANSCRIPT_CONFIG, provider: 'none' })).toBeUndefined()
+      expect(createTranscriptProvider({ ...DEFAULT_TRANSCRIPT_CONFIG, provider: 'file' })?.name).toBe('file')
+      expect(createTranscriptProvider(DEFAULT_TRANSCRIPT_CONFIG)?.name).toBe('apify')
+    })
+  })
+})